@@ -0,0 +1,102 @@
+import { findClosestMatch } from "./utils";
+
+// "shared": the computations without the webpackChunkName option are bundled in the default chunk
+// "per-file": each computation without the webpackChunkName option gets its own chunk named after its path
+export type ChunkNaming = 'shared' | 'per-file';
+
+// The `useSSRComputation` config of babel-plugin-macros
+export type MacroConfig = {
+  side: 'client' | 'server';
+  // An optional id of the current build. It's added to the version of every computation,
+  // so the results cached by another build are never used by the client.
+  buildId?: string;
+  // The path of the JSON manifest of the computations (relative to the cwd), written if it's provided
+  manifest?: string;
+  // The path the runtime modules are imported from, e.g. a package that re-exports the runtime
+  runtimeImportPath: string;
+  // The extensions of the computation files, in the order they're looked up
+  extensions: string[];
+  // The suffix of the computation files (before the extension)
+  computationSuffix: string;
+  // The chunk of the computations without the webpackChunkName option, if the chunk naming is "shared"
+  defaultChunkName: string;
+  chunkNaming: ChunkNaming;
+};
+
+const defaultMacroConfig: Omit<MacroConfig, 'side'> = {
+  runtimeImportPath: '@shakacode/use-ssr-computation.runtime/lib',
+  extensions: ['.ts', '.js', '.tsx', '.jsx'],
+  computationSuffix: '.ssr-computation',
+  defaultChunkName: 'default-ssr-computations',
+  chunkNaming: 'shared',
+};
+
+const chunkNamings: ChunkNaming[] = ['shared', 'per-file'];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+// Each config option is validated by its check, which returns the expected value if it's invalid
+const configChecks: { [K in keyof Required<MacroConfig>]: (value: unknown) => string | undefined } = {
+  side: (value) => (value === 'client' || value === 'server' ? undefined : '"client" or "server"'),
+  buildId: (value) => (typeof value === 'string' ? undefined : 'a string'),
+  manifest: (value) => (isNonEmptyString(value) ? undefined : 'a non-empty string'),
+  runtimeImportPath: (value) => (isNonEmptyString(value) ? undefined : 'a non-empty string'),
+  extensions: (value) => {
+    const isValid = Array.isArray(value) && value.length > 0 && value.every((extension) => typeof extension === 'string' && /^\.[^./\\]+$/.test(extension));
+    return isValid ? undefined : 'a non-empty array of extensions that start with a dot, e.g. [".ts", ".mts"]';
+  },
+  computationSuffix: (value) => (isNonEmptyString(value) && value.startsWith('.') ? undefined : 'a string that starts with a dot, e.g. ".ssr-computation"'),
+  defaultChunkName: (value) => (isNonEmptyString(value) ? undefined : 'a non-empty string'),
+  chunkNaming: (value) => (chunkNamings.includes(value as ChunkNaming) ? undefined : chunkNamings.map((chunkNaming) => `"${chunkNaming}"`).join(' or ')),
+};
+
+// Validates the `useSSRComputation` config of babel-plugin-macros and fills in the defaults
+export function parseMacroConfig(config: unknown): MacroConfig {
+  if (!config || typeof config !== 'object' || !('side' in config)) {
+    throw new Error(`The "side" option must be specified in babel-plugin-macros config in babel.config.js:
+      plugins: [
+        [
+          "macros",
+          {
+            useSSRComputation: {
+              side: isSSRBundle ? "server" : "client",
+            },
+          },
+        ],
+      ]
+    `);
+  }
+
+  const configOptionNames = Object.keys(configChecks);
+  Object.entries(config).forEach(([optionName, value]) => {
+    if (!configOptionNames.includes(optionName)) {
+      const closestMatch = findClosestMatch(optionName, configOptionNames);
+      const suggestion = closestMatch ? `Did you mean "${closestMatch}"?` : `The valid options are: ${configOptionNames.join(', ')}.`;
+      throw new Error(`Unknown option "${optionName}" of useSSRComputation in babel-plugin-macros config. ${suggestion}`);
+    }
+    // The options set to undefined fall back to their defaults
+    if (value === undefined && optionName !== 'side') return;
+
+    const expectedValue = configChecks[optionName](value);
+    if (expectedValue) {
+      throw new Error(`The "${optionName}" option of useSSRComputation in babel-plugin-macros config must be ${expectedValue}, but it's ${JSON.stringify(value)}.`);
+    }
+  });
+
+  const macroConfig = { ...defaultMacroConfig };
+  Object.entries(config).forEach(([optionName, value]) => {
+    if (value !== undefined) macroConfig[optionName] = value;
+  });
+  return macroConfig as MacroConfig;
+}
+
+// Returns the name of the chunk the computation file is bundled in on the client side
+export function getChunkName(config: MacroConfig, relativePathToCwd: string, webpackChunkName?: string) {
+  if (webpackChunkName) return `${webpackChunkName}-ssr-computations`;
+  if (config.chunkNaming === 'shared') return config.defaultChunkName;
+
+  const pathWithoutSuffix = relativePathToCwd.endsWith(config.computationSuffix)
+    ? relativePathToCwd.slice(0, -config.computationSuffix.length)
+    : relativePathToCwd;
+  return `${pathWithoutSuffix.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '')}-ssr-computations`;
+}
@@ -2,10 +2,14 @@ import { createMacro, MacroHandler } from "babel-plugin-macros";
 import { NodePath } from "@babel/core";
 import * as path from "path";
 import * as fs from "fs";
+import * as crypto from "crypto";
 import * as t from "@babel/types";
-import { Dependency } from "@shakacode/use-ssr-computation.runtime/src/utils"
+import { Dependency, NoResultType, SSRComputationState } from "@shakacode/use-ssr-computation.runtime/src/utils"
 
-import { extractMacroOptions, Options } from './utils';
+import { buildMacroError, extractMacroOptions, getOptionNames, Options, validateDependencies } from './utils';
+import { validateComputationFile } from './validateComputationFile';
+import { CalledComputation, updateManifest } from './manifest';
+import { getChunkName, parseMacroConfig } from './config';
 
 function getProgramPath (nodePath: NodePath): NodePath<t.Program> {
   const programPath = nodePath.findParent((path) => path.isProgram()) as NodePath<t.Program>;
@@ -55,12 +59,48 @@ function addImportStatement(importName: string, importPath: string, isDefault: b
 }
 
 interface PluginOptions {
-  useSSRComputation: {
-    side: 'client' | 'server';
-  };
+  useSSRComputation?: unknown;
 }
 
-const macro: MacroHandler = ({ references, state }) => {
+function calculateContentHash(computationFilePath: string) {
+  return crypto.createHash('md5').update(fs.readFileSync(computationFilePath)).digest('hex').slice(0, 10);
+}
+
+// The version of a computation is the content hash of its file (prefixed by the build id if provided).
+// The client treats the cached results of other versions as cache misses.
+function calculateComputationVersion(contentHash: string, buildId?: string) {
+  return buildId ? `${buildId}-${contentHash}` : contentHash;
+}
+
+// The worker entries are generated in the cache directory of the project, because they must be bundled
+// as separate entries (e.g. by `new Worker(new URL(...))` in webpack 5).
+const workerEntriesDirectory = path.join(process.cwd(), 'node_modules', '.cache', 'use-ssr-computation', 'workers');
+
+const toImportPath = (fromDirectory: string, toFile: string) => {
+  const importPath = path.relative(fromDirectory, toFile).split(path.sep).join('/');
+  return importPath.startsWith('.') ? importPath : `./${importPath}`;
+}
+
+// Writes the worker entry of the computation file and returns its path.
+// The file is written only if its content changed, so the watch mode of the bundler isn't triggered again.
+function writeWorkerEntry(computationFilePath: string, relativePathToCwd: string, runtimeImportPath: string) {
+  const workerEntryPath = path.join(workerEntriesDirectory, `${relativePathToCwd.replace(/[^a-zA-Z0-9]/g, '_')}.worker.js`);
+  const workerEntryContent = [
+    `// Generated by use-ssr-computation.macro for "${relativePathToCwd}"`,
+    `import * as ssrComputation from ${JSON.stringify(toImportPath(workerEntriesDirectory, computationFilePath))};`,
+    `import { exposeSSRComputation } from "${runtimeImportPath}/workerComputation";`,
+    `exposeSSRComputation(ssrComputation);`,
+    '',
+  ].join('\n');
+
+  if (!fs.existsSync(workerEntryPath) || fs.readFileSync(workerEntryPath, 'utf8') !== workerEntryContent) {
+    fs.mkdirSync(workerEntriesDirectory, { recursive: true });
+    fs.writeFileSync(workerEntryPath, workerEntryContent);
+  }
+  return workerEntryPath;
+}
+
+const macro: MacroHandler = ({ references, state, babel }) => {
   const currentFilename = state.file.opts.filename;
   if (!currentFilename) {
     throw new Error("useSSRComputation is called without filename");
@@ -68,70 +108,94 @@ const macro: MacroHandler = ({ references, state }) => {
 
   const pluginOptions = state.opts as PluginOptions;
 
-  const opts = pluginOptions?.useSSRComputation;
-  if (!opts || (opts.side !== 'client' && opts.side !== 'server')) {
-    throw new Error(`The "side" option must be specified in babel-plugin-macros config in babel.config.js:
-      plugins: [
-        [
-          "macros",
-          {
-            useSSRComputation: {
-              isSSRBundle ? "server" : "client",
-            },
-          },  
+  const config = parseMacroConfig(pluginOptions?.useSSRComputation);
+  const { side, runtimeImportPath } = config;
 
-      ]
-    `);
+  // The computations called by the current file, recorded in the manifest
+  const calledComputations = new Map<string, CalledComputation>();
 
-  }
-  const side : 'client' | 'server' = opts?.side;
+  // Both hooks are compiled the same way, to the server or the client runtime function of the same name
+  const hookReferences = [
+    ...(references.useSSRComputation || []).map((nodePath: NodePath) => ({ nodePath, hookName: 'useSSRComputation' })),
+    ...(references.useSSRComputationState || []).map((nodePath: NodePath) => ({ nodePath, hookName: 'useSSRComputationState' })),
+  ];
 
-  (references.useSSRComputation || []).map((nodePath: NodePath) => {
+  hookReferences.forEach(({ nodePath, hookName }) => {
     const parent = nodePath.parent;
     if (t.isCallExpression(parent)) {
+      const callPath = nodePath.parentPath!;
       if (parent.arguments.length < 2) {
-        throw new Error("useSSRComputation must be called with at least two arguments: a path to a .ssr-computation.js file containing the definition of the funciton and array of dependencies.");
+        throw buildMacroError(callPath, "useSSRComputation must be called with at least two arguments: a path to a .ssr-computation.js file containing the definition of the funciton and array of dependencies.");
       }
 
       if (parent.arguments.length > 3) {
-        throw new Error("useSSRComputation must be called with at most three arguments: a path to a .ssr-computation.js file containing the definition of the funciton, array of dependencies and options object.");
+        throw buildMacroError(callPath, "useSSRComputation must be called with at most three arguments: a path to a .ssr-computation.js file containing the definition of the funciton, array of dependencies and options object.");
       }
 
-      const filenameNode = parent.arguments.shift();
+      let filenameNode = parent.arguments.shift();
       const optionsNode = parent.arguments.length === 2 ? parent.arguments.pop() : t.objectExpression([]);
 
+      // The typed form passes the computation file as `import("./file.ssr-computation")` to infer its types.
+      // It's compiled like the path of the file, so the computation isn't imported where it's called.
+      if (t.isCallExpression(filenameNode) && t.isImport(filenameNode.callee)) {
+        if (filenameNode.arguments.length !== 1 || !t.isStringLiteral(filenameNode.arguments[0])) {
+          throw buildMacroError(callPath, "The import of the computation file must have a single string literal argument.", filenameNode);
+        }
+        filenameNode = filenameNode.arguments[0];
+      }
+
       if (!t.isStringLiteral(filenameNode)) {
-        throw new Error("The first argument must be a path to an existing ts file.");
+        throw buildMacroError(callPath, "The first argument must be a path to an existing ts file.", filenameNode);
       }
 
       // Check and parse options
       if (!t.isObjectExpression(optionsNode)) {
-        throw new Error("The third argument must be an options object.");
+        throw buildMacroError(callPath, "The third argument must be an options object.", optionsNode);
       }
-      const macroOptions = extractMacroOptions(optionsNode);
-
-      const webpackChunkName = (macroOptions.webpackChunkName ? macroOptions.webpackChunkName : 'default') + '-ssr-computations';
+      const optionNames = getOptionNames(optionsNode);
+      const macroOptions = extractMacroOptions(optionsNode, callPath);
+      validateDependencies(parent.arguments[0], callPath);
 
       const absolutePath = path.resolve(
         path.dirname(currentFilename),
         filenameNode.value,
       );
 
-      const extensions = ['.ts', '.js', '.tsx', '.jsx'];
-      if (!extensions.some(extension => fs.existsSync(absolutePath + extension))) {
-        throw new Error(`The file ${filenameNode}(.js/.ts/.jsx/.tsx) does not exist.`);
-      }
+      const relativePathToCwd = path.relative(process.cwd(), absolutePath);
+      const webpackChunkName = getChunkName(config, relativePathToCwd, macroOptions.webpackChunkName);
 
-      const useSSRComputationFunctionName = `useSSRComputation_${side.charAt(0).toUpperCase() + side.slice(1)}`;
+      const { extensions } = config;
+      const existingExtension = extensions.find(extension => fs.existsSync(absolutePath + extension));
+      if (!existingExtension) {
+        throw buildMacroError(callPath, `The file ${filenameNode.value}(${extensions.join('/')}) does not exist.`, filenameNode);
+      }
+      const exportNames = validateComputationFile(babel, callPath, absolutePath + existingExtension, relativePathToCwd);
+      const contentHash = calculateContentHash(absolutePath + existingExtension);
+      const version = calculateComputationVersion(contentHash, config.buildId);
+
+      const calledComputation = calledComputations.get(relativePathToCwd);
+      calledComputations.set(relativePathToCwd, {
+        file: relativePathToCwd + existingExtension,
+        hasSubscribe: !!exportNames?.includes('subscribe'),
+        contentHash,
+        version,
+        caller: {
+          // The remote computations aren't downloaded, and the worker computations are bundled in the worker entries
+          chunkName: macroOptions.remote || macroOptions.worker ? null : webpackChunkName,
+          options: Array.from(new Set([...(calledComputation?.caller.options ?? []), ...optionNames])).sort(),
+        },
+      });
+
+      const useSSRComputationFunctionName = `${hookName}_${side.charAt(0).toUpperCase() + side.slice(1)}`;
       parent.callee = t.identifier(useSSRComputationFunctionName);
-      addImportStatement(useSSRComputationFunctionName, `@shakacode/use-ssr-computation.runtime/lib/${useSSRComputationFunctionName}`, true, false, nodePath);
+      addImportStatement(useSSRComputationFunctionName, `${runtimeImportPath}/${useSSRComputationFunctionName}`, true, false, nodePath);
 
       if (side === 'server')
       {
         let importedFunctionName = filenameNode.value;
-        const delimeter = '.ssr-computation';
-        if (!importedFunctionName.endsWith('.ssr-computation')) {
-          throw new Error(`The file ${importedFunctionName} must have the extension ${delimeter} to be used in useSSRComputation`);
+        const delimeter = config.computationSuffix;
+        if (!importedFunctionName.endsWith(delimeter)) {
+          throw buildMacroError(callPath, `The file ${importedFunctionName} must have the extension ${delimeter} to be used in useSSRComputation`, filenameNode);
         }
 
         importedFunctionName = importedFunctionName.replace(delimeter, '');
@@ -141,6 +205,59 @@ const macro: MacroHandler = ({ references, state }) => {
 
         const identifier = t.identifier(importedFunctionName);
         parent.arguments.unshift(identifier);
+      } else if (macroOptions.remote) {
+        // The remote computations are computed by the server, so the computation file isn't imported on the client side
+        const remoteImportFunctionName = 'importRemoteSSRComputation';
+        const dynamicImportFunctionName = nodePath.scope.generateUidIdentifier('remoteImport_');
+        const dynamicImportFunction = t.functionDeclaration(
+          dynamicImportFunctionName,
+          [],
+          t.blockStatement([
+            t.returnStatement(
+              t.callExpression(
+                t.identifier(remoteImportFunctionName),
+                [t.stringLiteral(relativePathToCwd)]
+              ),
+            ),
+          ]),
+        );
+
+        const programPath = getProgramPath(nodePath);
+        programPath.node.body.unshift(dynamicImportFunction);
+        addImportStatement(remoteImportFunctionName, `${runtimeImportPath}/remoteComputation`, false, false, nodePath);
+        parent.arguments.unshift(dynamicImportFunctionName);
+      } else if (macroOptions.worker) {
+        // The computation file is imported by the generated worker entry, and the client runs it in the worker:
+        // importWorkerSSRComputation(path, () => new Worker(new URL(workerEntry, import.meta.url), { type: "module" }))
+        const workerImportFunctionName = 'importWorkerSSRComputation';
+        const workerEntryPath = writeWorkerEntry(absolutePath, relativePathToCwd, runtimeImportPath);
+        const workerURL = t.newExpression(t.identifier('URL'), [
+          t.stringLiteral(toImportPath(path.dirname(currentFilename), workerEntryPath)),
+          t.memberExpression(t.metaProperty(t.identifier('import'), t.identifier('meta')), t.identifier('url')),
+        ]);
+        const createWorkerFunction = t.arrowFunctionExpression([], t.newExpression(t.identifier('Worker'), [
+          workerURL,
+          t.objectExpression([t.objectProperty(t.identifier('type'), t.stringLiteral('module'))]),
+        ]));
+
+        const dynamicImportFunctionName = nodePath.scope.generateUidIdentifier('workerImport_');
+        const dynamicImportFunction = t.functionDeclaration(
+          dynamicImportFunctionName,
+          [],
+          t.blockStatement([
+            t.returnStatement(
+              t.callExpression(
+                t.identifier(workerImportFunctionName),
+                [t.stringLiteral(relativePathToCwd), createWorkerFunction]
+              ),
+            ),
+          ]),
+        );
+
+        const programPath = getProgramPath(nodePath);
+        programPath.node.body.unshift(dynamicImportFunction);
+        addImportStatement(workerImportFunctionName, `${runtimeImportPath}/workerComputation`, false, false, nodePath);
+        parent.arguments.unshift(dynamicImportFunctionName);
       } else {
         nodePath.node.start
         const importString = t.stringLiteral(filenameNode.value);
@@ -165,20 +282,60 @@ const macro: MacroHandler = ({ references, state }) => {
           ]),
         );
 
+        // The import function is registered, so `prefetchSSRComputation` can download the computation by its path
+        const registerFunctionName = 'registerSSRComputation';
+        const registerStatement = t.expressionStatement(
+          t.callExpression(
+            t.identifier(registerFunctionName),
+            [t.stringLiteral(relativePathToCwd), dynamicImportFunctionName],
+          ),
+        );
+
         const programPath = getProgramPath(nodePath);
-        programPath.node.body.unshift(dynamicImportFunction);
+        programPath.node.body.unshift(dynamicImportFunction, registerStatement);
+        addImportStatement(registerFunctionName, `${runtimeImportPath}/computationRegistry`, false, false, nodePath);
         parent.arguments.unshift(dynamicImportFunctionName);
+
+        // The runtime uses the chunk name to activate the subscriptions of specific chunks
+        optionsNode.properties.push(t.objectProperty(t.identifier('chunkName'), t.stringLiteral(webpackChunkName)));
       }
 
-      const relativePathToCwd = path.relative(process.cwd(), absolutePath);
       parent.arguments.push(optionsNode);
       parent.arguments.push(t.stringLiteral(relativePathToCwd));
+      parent.arguments.push(t.stringLiteral(version));
     }
   });
 
+  if (config.manifest) {
+    updateManifest(path.resolve(process.cwd(), config.manifest), path.relative(process.cwd(), currentFilename), calledComputations);
+  }
+
+};
+
+// The exports of the computation file used by the typed form, e.g. `useSSRComputation(import("./x.ssr-computation"), [price])`.
+// The dependencies and the result are inferred from its "compute" function.
+type ComputationModule = { compute: (...dependencies: any[]) => unknown };
+type ComputationDependencies<TModule extends ComputationModule> = Parameters<TModule['compute']>;
+type ComputationResult<TModule extends ComputationModule> = Exclude<Awaited<ReturnType<TModule['compute']>>, NoResultType>;
+
+type UseSSRComputation = {
+  // In suspense mode, the hook suspends until the result is available, so it never returns null (unless it's skipped).
+  // The failed computations are thrown to the closest error boundary.
+  <TModule extends ComputationModule>(computation: Promise<TModule>, dependencies: ComputationDependencies<TModule>, options: Options<ComputationResult<TModule>> & { suspense: true, skip?: false }): ComputationResult<TModule>;
+  <TModule extends ComputationModule>(computation: Promise<TModule>, dependencies: ComputationDependencies<TModule>, options?: Options<ComputationResult<TModule>>): ComputationResult<TModule> | null;
+  <TResult = any>(filename: string, dependencies: Dependency[], options: Options<TResult> & { suspense: true, skip?: false }): TResult;
+  <TResult = any>(filename: string, dependencies: Dependency[], options?: Options<TResult>): TResult | null;
 };
 
-export const useSSRComputation: (filename: string, dependencies: Dependency[], options: Options) => any = null as any;
+type UseSSRComputationState = {
+  <TModule extends ComputationModule>(computation: Promise<TModule>, dependencies: ComputationDependencies<TModule>, options?: Options<ComputationResult<TModule>>): SSRComputationState<ComputationResult<TModule>>;
+  <TResult = any>(filename: string, dependencies: Dependency[], options?: Options<TResult>): SSRComputationState<TResult>;
+};
+
+export const useSSRComputation: UseSSRComputation = null as any;
+
+// Same as `useSSRComputation`, but returns the status of the computation along with the result.
+export const useSSRComputationState: UseSSRComputationState = null as any;
 
 export default createMacro(macro, {
   configName: "useSSRComputation",
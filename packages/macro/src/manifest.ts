@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SSRComputationsManifest,
+  SSRComputationsManifestCaller,
+  SSRComputationsManifestEntry,
+} from "@shakacode/use-ssr-computation.runtime/src/manifest";
+
+export type CalledComputation = Omit<SSRComputationsManifestEntry, 'chunkNames' | 'callers'> & {
+  caller: SSRComputationsManifestCaller;
+};
+
+const readManifest = (manifestPath: string): SSRComputationsManifest => {
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch {
+    // The manifest is created by the first compiled file
+    return {};
+  }
+}
+
+// The lock of a crashed build process is removed after this time, updating the manifest takes a few milliseconds
+const STALE_LOCK_MS = 10 * 1000;
+const LOCK_RETRY_DELAY_MS = 5;
+
+// The macros run synchronously, so the process is blocked while it waits for the lock
+const sleep = (ms: number) => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+const isStaleLock = (lockPath: string) => {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS;
+  } catch {
+    // The lock is released in the meantime
+    return false;
+  }
+}
+
+// Runs the callback while holding the lock file of the manifest, so the parallel build processes
+// (e.g. thread-loader or jest workers, or the server and client builds) don't overwrite each other's updates
+const withManifestLock = (manifestPath: string, callback: () => void) => {
+  const lockPath = `${manifestPath}.lock`;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      if (isStaleLock(lockPath)) {
+        fs.rmSync(lockPath, { force: true });
+      } else {
+        sleep(LOCK_RETRY_DELAY_MS);
+      }
+    }
+  }
+
+  try {
+    callback();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+const sortKeys = <TValue>(object: Record<string, TValue>): Record<string, TValue> => {
+  const sortedObject = {};
+  Object.keys(object).sort().forEach((key) => {
+    sortedObject[key] = object[key];
+  });
+  return sortedObject;
+}
+
+// Merges the computations called by the compiled file into the manifest. The file is removed from the callers
+// of the computations it doesn't call anymore, and the computations without callers are removed.
+// The manifest is written only if its content changed, so the watch mode of the bundler isn't triggered again.
+const mergeIntoManifest = (manifestPath: string, callerFile: string, calledComputations: Map<string, CalledComputation>) => {
+  const manifest = readManifest(manifestPath);
+  Object.values(manifest).forEach((entry) => {
+    delete entry.callers[callerFile];
+  });
+
+  calledComputations.forEach(({ caller, ...computation }, relativePathToCwd) => {
+    manifest[relativePathToCwd] = {
+      ...computation,
+      chunkNames: [],
+      callers: { ...manifest[relativePathToCwd]?.callers, [callerFile]: caller },
+    };
+  });
+
+  Object.entries(manifest).forEach(([relativePathToCwd, entry]) => {
+    if (Object.keys(entry.callers).length === 0) {
+      delete manifest[relativePathToCwd];
+      return;
+    }
+    const chunkNames = Object.values(entry.callers).map(({ chunkName }) => chunkName).filter((chunkName): chunkName is string => chunkName !== null);
+    entry.chunkNames = Array.from(new Set(chunkNames)).sort();
+    entry.callers = sortKeys(entry.callers);
+  });
+
+  const manifestContent = `${JSON.stringify(sortKeys(manifest), null, 2)}\n`;
+  if (fs.existsSync(manifestPath) && fs.readFileSync(manifestPath, 'utf8') === manifestContent) return;
+
+  // The manifest is replaced atomically, so the readers never read a partially written file
+  const temporaryPath = `${manifestPath}.${process.pid}.tmp`;
+  fs.writeFileSync(temporaryPath, manifestContent);
+  fs.renameSync(temporaryPath, manifestPath);
+}
+
+// Updates the manifest under its lock file, so it can be called by parallel build processes
+export function updateManifest(manifestPath: string, callerFile: string, calledComputations: Map<string, CalledComputation>) {
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  withManifestLock(manifestPath, () => mergeIntoManifest(manifestPath, callerFile, calledComputations));
+}
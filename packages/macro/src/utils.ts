@@ -1,45 +1,177 @@
 import * as t from "@babel/types";
+import { NodePath } from "@babel/core";
+import { MacroError } from "babel-plugin-macros";
 import { Options as RuntimeOptions } from "@shakacode/use-ssr-computation.runtime/src/utils"
 
 type MacroOptions = {
   webpackChunkName?: string;
+  // The client sends the dependencies to the server and receives the result, instead of downloading the computation file
+  remote?: boolean;
+  // The client computes the result in a Web Worker, so heavy computations don't block the main thread
+  worker?: boolean;
 };
 
-export type Options = MacroOptions & RuntimeOptions;
+export type Options<TResult = any> = MacroOptions & RuntimeOptions<TResult>;
 
 // `ExtractObjectTypes` maps each property of the input object `T` to a string representing its type
 type ExtractObjectTypes<T> = {
   [K in keyof Required<T>]: T[K] extends (boolean | undefined) ? 'boolean' :
                     T[K] extends (string | undefined) ? 'string' :
-                    never;
+                    T[K] extends (number | undefined) ? 'number' :
+                    'any';
 };
 
 const macroOptionsToTypes: ExtractObjectTypes<MacroOptions> = {
   webpackChunkName: 'string',
+  remote: 'boolean',
+  worker: 'boolean',
 };
 
-export function extractMacroOptions(optionsNode: t.ObjectExpression): MacroOptions {
+// The runtime options are passed to the runtime, so only their literal values can be checked at build time
+const runtimeOptionsToTypes: ExtractObjectTypes<RuntimeOptions> = {
+  skip: 'boolean',
+  suspense: 'boolean',
+  keepPreviousResult: 'boolean',
+  placeholder: 'any',
+  chunkName: 'string',
+  serverCacheTtlMs: 'number',
+  maxPayloadBytes: 'number',
+};
+
+// Creates a `MacroError` with the code frame of the node, so the errors point at the source of the mistake
+export function buildMacroError(nodePath: NodePath, message: string, node: t.Node = nodePath.node): MacroError {
+  return new MacroError(nodePath.hub.buildError(node, message, Error).message);
+}
+
+// Returns the type of a literal value, or undefined if the value is only known at runtime
+const getLiteralType = (node: t.Node) => {
+  if (t.isStringLiteral(node) || t.isTemplateLiteral(node)) return 'string';
+  if (t.isNumericLiteral(node) || (t.isUnaryExpression(node) && ['-', '+'].includes(node.operator) && t.isNumericLiteral(node.argument))) return 'number';
+  if (t.isBooleanLiteral(node) || (t.isUnaryExpression(node) && node.operator === '!')) return 'boolean';
+  if (t.isObjectExpression(node)) return 'object';
+  if (t.isArrayExpression(node)) return 'array';
+  if (t.isFunction(node)) return 'function';
+  return undefined;
+}
+
+const getPropertyKey = (property: t.ObjectProperty | t.ObjectMethod) => {
+  if (t.isIdentifier(property.key) && !property.computed) return property.key.name;
+  if (t.isStringLiteral(property.key)) return property.key.value;
+  return undefined;
+}
+
+// Returns the names of the options passed in the options object, except the spread options
+export function getOptionNames(optionsNode: t.ObjectExpression): string[] {
+  return optionsNode.properties
+    .map((property) => (t.isSpreadElement(property) ? undefined : getPropertyKey(property)))
+    .filter((name): name is string => name !== undefined);
+}
+
+// Validates the options object and extracts the macro options from it. The runtime options are kept in the object.
+// The options spread from other objects (e.g. `{ ...options }`) can't be checked at build time.
+export function extractMacroOptions(optionsNode: t.ObjectExpression, callPath: NodePath): MacroOptions {
   const macroOptions: MacroOptions = {};
-  Object.entries(macroOptionsToTypes).forEach(([macroOptionName, macroOptionType]) => {
-    for (const property of optionsNode.properties) {
-      if (!t.isObjectProperty(property) || !(t.isIdentifier(property.key) || t.isStringLiteral(property.key))) continue;
-
-      const propertyKey = t.isStringLiteral(property.key) ? property.key.value : property.key.name;
-      if (propertyKey !== macroOptionName) continue;
-
-      switch (macroOptionType) {
-        case 'string':
-          if (!t.isStringLiteral(property.value)) {
-            throw new Error(`The ${macroOptionName} property must be a string literal.`);
-          }
-          break;
+  const optionNames = [...Object.keys(macroOptionsToTypes), ...Object.keys(runtimeOptionsToTypes)];
+
+  for (const property of [...optionsNode.properties]) {
+    if (t.isSpreadElement(property)) continue;
+    const propertyKey = getPropertyKey(property);
+    if (propertyKey === undefined) continue;
+
+    if (propertyKey === 'chunkName') {
+      throw buildMacroError(callPath, 'The chunkName option is set by the macro. Use the webpackChunkName option instead.', property);
+    }
+    if (!optionNames.includes(propertyKey)) {
+      const closestMatch = findClosestMatch(propertyKey, optionNames);
+      const suggestion = closestMatch ? `Did you mean "${closestMatch}"?` : `The valid options are: ${optionNames.filter((name) => name !== 'chunkName').join(', ')}.`;
+      throw buildMacroError(callPath, `Unknown option "${propertyKey}". ${suggestion}`, property);
+    }
+
+    const value = t.isObjectMethod(property) ? property : property.value;
+    const macroOptionType = macroOptionsToTypes[propertyKey];
+    if (macroOptionType) {
+      // The macro options change the generated code, so they must be literals
+      const isLiteralOfType = macroOptionType === 'string' ? t.isStringLiteral(value) : t.isBooleanLiteral(value);
+      if (!isLiteralOfType) {
+        throw buildMacroError(callPath, `The ${propertyKey} option must be a ${macroOptionType} literal.`, value);
       }
 
       // add to macro options and remove from optionsNode
-      macroOptions[macroOptionName] = property.value.value;
+      macroOptions[propertyKey] = (value as t.StringLiteral | t.BooleanLiteral).value;
       optionsNode.properties.splice(optionsNode.properties.indexOf(property), 1);
+      continue;
     }
-  });
+
+    const runtimeOptionType = runtimeOptionsToTypes[propertyKey];
+    const literalType = getLiteralType(value);
+    if (runtimeOptionType !== 'any' && literalType !== undefined && literalType !== runtimeOptionType) {
+      throw buildMacroError(callPath, `The ${propertyKey} option must be a ${runtimeOptionType}, but it's a ${literalType}.`, value);
+    }
+  }
 
   return macroOptions;
 };
+
+// Returns the reason the literal can't be a dependency, or undefined if it's valid or only known at runtime
+const getInvalidDependencyReason = (node: t.Node): string | undefined => {
+  if (t.isFunction(node)) return 'functions';
+  if (t.isClass(node)) return 'classes';
+  if (t.isRegExpLiteral(node)) return 'regular expressions';
+  if (t.isBigIntLiteral(node)) return 'BigInt values';
+  if (t.isJSXElement(node) || t.isJSXFragment(node)) return 'React elements';
+  return undefined;
+}
+
+// Checks the literal elements of the dependencies array, including the nested arrays and plain objects.
+// The other values (e.g. variables) are checked by the runtime.
+export function validateDependencies(dependenciesNode: t.Node, callPath: NodePath) {
+  const validate = (node: t.Node | null) => {
+    if (!node || t.isSpreadElement(node)) return;
+    const invalidReason = getInvalidDependencyReason(node);
+    if (invalidReason) {
+      throw buildMacroError(callPath, `Invalid dependency: ${invalidReason} can't be dependencies. The dependencies must be strings, numbers, booleans, null, undefined, objects with a "uniqueId" property, or arrays and plain objects of them.`, node);
+    }
+    if (t.isArrayExpression(node)) {
+      node.elements.forEach(validate);
+    } else if (t.isObjectExpression(node)) {
+      // The other properties of the objects with a "uniqueId" are ignored by the runtime
+      const hasUniqueId = node.properties.some((property) => !t.isSpreadElement(property) && getPropertyKey(property) === 'uniqueId');
+      if (hasUniqueId) return;
+      node.properties.forEach((property) => validate(t.isObjectProperty(property) ? property.value : property));
+    }
+  };
+
+  if (!t.isArrayExpression(dependenciesNode)) return;
+  dependenciesNode.elements.forEach(validate);
+}
+
+// The optimal string alignment distance: the number of inserted, deleted, substituted and transposed characters
+const calculateEditDistance = (a: string, b: string) => {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + substitutionCost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+}
+
+// Returns the candidate that the name is most likely a misspelling of, or undefined if none of them is close enough.
+// The names are compared case-insensitively, and longer names may have more typos.
+export function findClosestMatch(name: string, candidates: string[]): string | undefined {
+  let closestMatch: string | undefined;
+  let closestDistance = Infinity;
+  candidates.forEach((candidate) => {
+    const distance = calculateEditDistance(name.toLowerCase(), candidate.toLowerCase());
+    const maxDistance = candidate.length > 8 ? 2 : 1;
+    if (distance <= maxDistance && distance < closestDistance) {
+      closestMatch = candidate;
+      closestDistance = distance;
+    }
+  });
+  return closestMatch;
+}
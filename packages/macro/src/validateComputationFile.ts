@@ -0,0 +1,218 @@
+import * as Babel from "@babel/core";
+import { NodePath } from "@babel/core";
+import * as fs from "fs";
+import * as path from "path";
+import * as t from "@babel/types";
+import { codeFrameColumns } from "@babel/code-frame";
+
+import { buildMacroError, findClosestMatch } from "./utils";
+
+// The exports of the computation files used by the runtime
+const knownExportNames = ['compute', 'subscribe', 'serverCache'];
+
+type ComputationExport = {
+  // The node that is pointed at by the errors
+  node: t.Node;
+  // The exported value, if it's declared in the computation file
+  value?: t.Node;
+};
+
+type ComputationExports = {
+  named: Map<string, ComputationExport>;
+  defaultExport?: t.Node;
+  // The names re-exported by `export * from` can't be listed without resolving the other files
+  hasExportAll: boolean;
+};
+
+// The syntax plugins needed by the file extension, added to the plugins of the project's Babel config
+const getParserPlugins = (filePath: string): string[] => {
+  switch (path.extname(filePath)) {
+    case '.ts':
+    case '.mts':
+    case '.cts':
+      return ['typescript'];
+    case '.tsx':
+      return ['typescript', 'jsx'];
+    default:
+      return ['jsx'];
+  }
+}
+
+// Parses the computation file with the Babel config of the project (e.g. Flow types, decorators or other proposals).
+// Returns undefined if the file can't be parsed, its syntax errors are reported by the bundler instead.
+const parseComputationFile = (babel: typeof Babel, source: string, filePath: string): t.File | undefined => {
+  try {
+    const partialConfig = babel.loadPartialConfig({ filename: filePath, sourceType: 'module' });
+    if (!partialConfig) return undefined;
+    const { options } = partialConfig;
+    const configuredPlugins = (options.parserOpts?.plugins ?? []) as NonNullable<Babel.ParserOptions['plugins']>;
+    const configuredPluginNames: string[] = configuredPlugins.map((plugin) => (Array.isArray(plugin) ? plugin[0] : plugin));
+    const extensionPlugins = getParserPlugins(filePath).filter((plugin) => !configuredPluginNames.includes(plugin)) as typeof configuredPlugins;
+    return babel.parseSync(source, {
+      ...options,
+      parserOpts: { ...options.parserOpts, plugins: [...configuredPlugins, ...extensionPlugins] },
+    }) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Returns the names exported by `module.exports = { ... }`, `module.exports.name =` and `exports.name =`,
+// or undefined if the file doesn't assign any CommonJS exports
+const collectCommonJSExportNames = (program: t.Program): string[] | undefined => {
+  const isModuleExports = (node: t.Node) => t.isMemberExpression(node) && t.isIdentifier(node.object, { name: 'module' }) && t.isIdentifier(node.property, { name: 'exports' });
+  const getPropertyName = (node: t.MemberExpression) => {
+    if (!node.computed && t.isIdentifier(node.property)) return node.property.name;
+    return t.isStringLiteral(node.property) ? node.property.value : undefined;
+  };
+
+  let exportNames: string[] | undefined;
+  program.body.forEach((statement) => {
+    if (!t.isExpressionStatement(statement) || !t.isAssignmentExpression(statement.expression)) return;
+    const { left, right } = statement.expression;
+    if (isModuleExports(left)) {
+      exportNames ??= [];
+      if (!t.isObjectExpression(right)) return;
+      right.properties.forEach((property) => {
+        if (!t.isObjectProperty(property) && !t.isObjectMethod(property)) return;
+        if (!property.computed && t.isIdentifier(property.key)) exportNames!.push(property.key.name);
+        else if (t.isStringLiteral(property.key)) exportNames!.push(property.key.value);
+      });
+    } else if (t.isMemberExpression(left) && (isModuleExports(left.object) || t.isIdentifier(left.object, { name: 'exports' }))) {
+      exportNames ??= [];
+      const exportName = getPropertyName(left);
+      if (exportName) exportNames.push(exportName);
+    }
+  });
+  return exportNames;
+}
+
+const getTopLevelValues = (program: t.Program) => {
+  const values = new Map<string, t.Node>();
+  program.body.forEach((statement) => {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+    if (t.isFunctionDeclaration(declaration) && declaration.id) {
+      values.set(declaration.id.name, declaration);
+    } else if (t.isClassDeclaration(declaration) && declaration.id) {
+      values.set(declaration.id.name, declaration);
+    } else if (t.isVariableDeclaration(declaration)) {
+      declaration.declarations.forEach((declarator) => {
+        if (t.isIdentifier(declarator.id) && declarator.init) values.set(declarator.id.name, declarator.init);
+      });
+    }
+  });
+  return values;
+}
+
+const collectExports = (program: t.Program): ComputationExports => {
+  const topLevelValues = getTopLevelValues(program);
+  const computationExports: ComputationExports = { named: new Map(), hasExportAll: false };
+
+  program.body.forEach((statement) => {
+    if (t.isExportDefaultDeclaration(statement)) {
+      computationExports.defaultExport = statement;
+    } else if (t.isExportAllDeclaration(statement)) {
+      computationExports.hasExportAll = true;
+    } else if (t.isExportNamedDeclaration(statement) && statement.exportKind !== 'type') {
+      const { declaration } = statement;
+      if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        computationExports.named.set(declaration.id.name, { node: declaration, value: declaration });
+      } else if (t.isVariableDeclaration(declaration)) {
+        declaration.declarations.forEach((declarator) => {
+          if (!t.isIdentifier(declarator.id)) return;
+          computationExports.named.set(declarator.id.name, { node: declarator, value: declarator.init ?? undefined });
+        });
+      }
+      statement.specifiers.forEach((specifier) => {
+        if (!t.isExportSpecifier(specifier) || specifier.exportKind === 'type') return;
+        const exportedName = t.isIdentifier(specifier.exported) ? specifier.exported.name : specifier.exported.value;
+        if (exportedName === 'default') {
+          computationExports.defaultExport = specifier;
+          return;
+        }
+        // The re-exported values are declared in other files
+        const value = statement.source ? undefined : topLevelValues.get(specifier.local.name);
+        computationExports.named.set(exportedName, { node: specifier, value });
+      });
+    }
+  });
+  return computationExports;
+}
+
+const isFunction = (node: t.Node): node is t.Function => t.isFunction(node);
+
+// Only the values that can't be functions are reported, e.g. the results of calls and imported values are skipped
+const isNonFunctionValue = (node: t.Node) => {
+  return t.isLiteral(node) || t.isObjectExpression(node) || t.isArrayExpression(node) || t.isClass(node);
+}
+
+// Parses the computation file and verifies its exports, so the mistakes are reported at build time instead of at runtime.
+// The errors point at the call site of the hook and at the offending export of the computation file.
+// The CommonJS files and the files that can't be parsed aren't verified.
+// Returns the names of the exports of the computation file, or undefined if they are unknown.
+export function validateComputationFile(babel: typeof Babel, callPath: NodePath, computationFilePath: string, relativePathToCwd: string): string[] | undefined {
+  const source = fs.readFileSync(computationFilePath, 'utf8');
+  const fileName = relativePathToCwd + path.extname(computationFilePath);
+
+  const fail = (message: string, node?: t.Node): never => {
+    const error = buildMacroError(callPath, `The computation file "${fileName}" ${message}`);
+    if (node?.loc) {
+      // The multiline exports (e.g. function declarations) are pointed at by their first line
+      const { start, end } = node.loc;
+      const location = start.line === end.line ? { start, end } : { start };
+      error.message += `\n\n${fileName}:\n${codeFrameColumns(source, location, { highlightCode: false })}`;
+    }
+    throw error;
+  };
+
+  const ast = parseComputationFile(babel, source, computationFilePath);
+  if (!ast) return undefined;
+
+  const { named, defaultExport, hasExportAll } = collectExports(ast.program);
+  if (named.size === 0 && !defaultExport && !hasExportAll) {
+    const commonJSExportNames = collectCommonJSExportNames(ast.program);
+    if (commonJSExportNames) return commonJSExportNames;
+  }
+  const exportNames = Array.from(named.keys());
+
+  named.forEach(({ node }, exportName) => {
+    if (knownExportNames.includes(exportName)) return;
+    const closestMatch = findClosestMatch(exportName, knownExportNames);
+    if (closestMatch && !named.has(closestMatch)) {
+      fail(`exports "${exportName}". Did you mean "${closestMatch}"?`, node);
+    }
+  });
+
+  const computeExport = named.get('compute');
+  if (!computeExport) {
+    if (hasExportAll) return exportNames;
+    if (defaultExport) {
+      fail('has a default export only. Export the computation as "compute" instead, e.g. `export const compute = (...dependencies) => result`.', defaultExport);
+    }
+    return fail('must export a "compute" function.');
+  }
+  if (computeExport.value && isNonFunctionValue(computeExport.value)) {
+    fail('must export "compute" as a function.', computeExport.node);
+  }
+  // Async computations are supported, but generators return an iterator instead of the result
+  if (computeExport.value && isFunction(computeExport.value) && computeExport.value.generator) {
+    fail('must export "compute" as a function that returns the result, not a generator.', computeExport.node);
+  }
+
+  const subscribeExport = named.get('subscribe');
+  if (!subscribeExport?.value) return exportNames;
+  const subscribe = subscribeExport.value;
+  if (isNonFunctionValue(subscribe)) {
+    fail('must export "subscribe" as a function.', subscribeExport.node);
+  }
+  if (isFunction(subscribe)) {
+    if (subscribe.async || subscribe.generator) {
+      fail('must export "subscribe" as a function that returns the subscription synchronously.', subscribeExport.node);
+    }
+    const hasRestParameter = subscribe.params.some((param) => t.isRestElement(param));
+    if (subscribe.params.length < 2 && !hasRestParameter) {
+      fail('must export "subscribe" as a function that accepts `getCurrentResult` and `next` before the dependencies: `(getCurrentResult, next, ...dependencies) => subscription`.', subscribeExport.node);
+    }
+  }
+  return exportNames;
+}
@@ -1,4 +1,4 @@
-export default function a() {
+export function compute() {
   console.log('Computation!');
   return 4;
 }
@@ -1,4 +1,4 @@
-export default function b() {
+export function compute() {
   console.log('Computation!');
   return 5;
 }
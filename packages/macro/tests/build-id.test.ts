@@ -0,0 +1,10 @@
+import { pluginTest } from './utils';
+
+pluginTest('build id', `
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", []);
+`, `
+  The last argument is the version of the computation. It's the content hash of the computation file,
+  prefixed by the "buildId" option of the babel config if provided.
+  The client treats the results cached by other versions as cache misses.
+`, { buildId: 'build-123' });
@@ -0,0 +1,7 @@
+const compute = (price) => `$${price}`;
+
+const subscribe = (getCurrentResult, next) => {
+  return { unsubscribe: () => {} };
+};
+
+module.exports = { compute, subscribe };
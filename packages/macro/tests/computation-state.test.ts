@@ -0,0 +1,10 @@
+import { pluginTest } from './utils';
+
+pluginTest('computation state', `
+  import { useSSRComputation, useSSRComputationState } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", []);
+  const { result, status, error, isFromSSRCache } = useSSRComputationState("./b.ssr-computation", [], { webpackChunkName: "custom-chunk-name" });
+`, `
+  The useSSRComputationState hook is compiled like useSSRComputation,
+  but to the runtime function that returns the status of the computation along with the result.
+`);
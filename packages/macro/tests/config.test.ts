@@ -0,0 +1,42 @@
+import { pluginTest, transformWithMacro } from './utils';
+
+const code = `
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", [], {});
+  const y = useSSRComputation("./b.ssr-computation", [], { webpackChunkName: "b" });
+`;
+
+pluginTest('config', code, 'the runtime is imported from the runtime import path', { runtimeImportPath: 'my-app/ssr-runtime' });
+pluginTest('config', code, 'the default chunk name is configurable', { defaultChunkName: 'computations' });
+pluginTest('config', code, 'each computation gets its own chunk with per-file chunk naming', { chunkNaming: 'per-file' });
+
+pluginTest('config', `
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./custom-computations/menu.computation", [locale], {});
+`, 'the extensions and the suffix of the computation files are configurable', { extensions: ['.mts'], computationSuffix: '.computation', chunkNaming: 'per-file' });
+
+const transform = (macroOptions: object) => transformWithMacro(`
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", [], {});
+`, 'client', macroOptions);
+
+test('the computation files are looked up with the configured extensions only', () => {
+  expect(() => transform({ extensions: ['.mts', '.js'] })).toThrow('The file ./a.ssr-computation(.mts/.js) does not exist.');
+});
+
+test('unknown config options are reported with the closest valid option', () => {
+  expect(() => transform({ runtimeImportPth: 'my-app/ssr-runtime' })).toThrow('Unknown option "runtimeImportPth" of useSSRComputation in babel-plugin-macros config. Did you mean "runtimeImportPath"?');
+  expect(() => transform({ cache: true })).toThrow('Unknown option "cache" of useSSRComputation in babel-plugin-macros config. The valid options are: side, buildId, manifest,');
+});
+
+test('invalid config values are reported with the expected value', () => {
+  expect(() => transform({ side: 'browser' })).toThrow(`The "side" option of useSSRComputation in babel-plugin-macros config must be "client" or "server", but it's "browser".`);
+  expect(() => transform({ chunkNaming: 'per-component' })).toThrow(`The "chunkNaming" option of useSSRComputation in babel-plugin-macros config must be "shared" or "per-file", but it's "per-component".`);
+  expect(() => transform({ extensions: ['ts'] })).toThrow(`The "extensions" option of useSSRComputation in babel-plugin-macros config must be a non-empty array of extensions that start with a dot, e.g. [".ts", ".mts"], but it's ["ts"].`);
+  expect(() => transform({ computationSuffix: 'ssr' })).toThrow(`The "computationSuffix" option of useSSRComputation in babel-plugin-macros config must be a string that starts with a dot`);
+  expect(() => transform({ runtimeImportPath: '' })).toThrow(`The "runtimeImportPath" option of useSSRComputation in babel-plugin-macros config must be a non-empty string, but it's "".`);
+});
+
+test('the options set to undefined fall back to their defaults', () => {
+  expect(() => transform({ extensions: undefined, chunkNaming: undefined })).not.toThrow();
+});
@@ -0,0 +1 @@
+export const compute = (locale: string) => `Menu (${locale})`;
@@ -0,0 +1,9 @@
+export const compute = () => null;
+
+export async function subscribe(getCurrentResult, next) {
+  const socket = await connect();
+  socket.on('message', next);
+  return { unsubscribe: () => socket.close() };
+}
+
+declare function connect(): Promise<any>;
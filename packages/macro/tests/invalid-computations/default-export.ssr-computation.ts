@@ -0,0 +1,3 @@
+export default function formatPrice(price: number) {
+  return `$${price}`;
+}
@@ -0,0 +1 @@
+export const formatPrice = (price: number) => `$${price}`;
@@ -0,0 +1,6 @@
+export const compute = () => new Date();
+
+export const subscibe = (getCurrentResult, next) => {
+  const interval = setInterval(() => next(new Date()), 1000);
+  return { unsubscribe: () => clearInterval(interval) };
+};
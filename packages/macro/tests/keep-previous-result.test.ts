@@ -0,0 +1,9 @@
+import { pluginTest } from './utils';
+
+pluginTest('keep previous result', `
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", [price], { keepPreviousResult: true, placeholder: "..." });
+`, `
+  The keepPreviousResult and placeholder options are kept in the runtime options object
+  On client side, the last result is returned until the result of the new dependencies is available
+`);
@@ -0,0 +1,108 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { transformWithMacro } from './utils';
+
+let manifestPath: string;
+const readManifest = () => JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+const compile = (filename: string, code: string, macroOptions: object = {}) => {
+  transformWithMacro(`
+    import { useSSRComputation, useSSRComputationState } from "../lib/index.macro"
+    ${code}
+  `, 'client', { manifest: manifestPath, ...macroOptions }, filename);
+};
+
+beforeEach(() => {
+  manifestPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ssr-computations-')), 'manifest.json');
+});
+
+afterEach(() => {
+  fs.rmSync(path.dirname(manifestPath), { recursive: true, force: true });
+});
+
+test('the manifest records the computations called by the compiled files', () => {
+  compile('Menu.tsx', `
+    const x = useSSRComputation("./a.ssr-computation", [], { webpackChunkName: "menu", skip: !ready });
+    const y = useSSRComputation("./b.ssr-computation", [], { remote: true });
+  `, { buildId: 'build-1' });
+  compile('Cart.tsx', `
+    const { result } = useSSRComputationState("./a.ssr-computation", [], { keepPreviousResult: true });
+  `, { buildId: 'build-1' });
+
+  const manifest = readManifest();
+  expect(Object.keys(manifest)).toEqual(['tests/a.ssr-computation', 'tests/b.ssr-computation']);
+  expect(manifest['tests/a.ssr-computation']).toEqual({
+    file: 'tests/a.ssr-computation.ts',
+    chunkNames: ['default-ssr-computations', 'menu-ssr-computations'],
+    callers: {
+      'tests/Cart.tsx': { chunkName: 'default-ssr-computations', options: ['keepPreviousResult'] },
+      'tests/Menu.tsx': { chunkName: 'menu-ssr-computations', options: ['skip', 'webpackChunkName'] },
+    },
+    hasSubscribe: false,
+    contentHash: expect.stringMatching(/^[0-9a-f]{10}$/),
+    version: `build-1-${manifest['tests/a.ssr-computation'].contentHash}`,
+  });
+  expect(manifest['tests/b.ssr-computation'].chunkNames).toEqual([]);
+  expect(manifest['tests/b.ssr-computation'].callers).toEqual({ 'tests/Menu.tsx': { chunkName: null, options: ['remote'] } });
+});
+
+test('the recompiled files replace their calls, and the computations without callers are removed', () => {
+  compile('Menu.tsx', `
+    const x = useSSRComputation("./a.ssr-computation", []);
+    const y = useSSRComputation("./b.ssr-computation", []);
+  `);
+  compile('Menu.tsx', `
+    const x = useSSRComputation("./a.ssr-computation", [], { suspense: true });
+  `);
+
+  const manifest = readManifest();
+  expect(Object.keys(manifest)).toEqual(['tests/a.ssr-computation']);
+  expect(manifest['tests/a.ssr-computation'].callers).toEqual({ 'tests/Menu.tsx': { chunkName: 'default-ssr-computations', options: ['suspense'] } });
+});
+
+test('the manifest records whether the computation exports "subscribe"', () => {
+  compile('Clock.tsx', `
+    const time = useSSRComputation("./clock.ssr-computation", []);
+    const price = useSSRComputation("./price.ssr-computation", [1, "USD"]);
+  `);
+
+  const manifest = readManifest();
+  expect(manifest['tests/clock.ssr-computation'].hasSubscribe).toBe(true);
+  expect(manifest['tests/price.ssr-computation'].hasSubscribe).toBe(false);
+});
+
+test('the exports of the CommonJS computation files are recorded', () => {
+  compile('Price.tsx', `const x = useSSRComputation("./commonjs.ssr-computation", [price]);`);
+
+  expect(readManifest()['tests/commonjs.ssr-computation']).toMatchObject({ file: 'tests/commonjs.ssr-computation.js', hasSubscribe: true });
+});
+
+test('the parallel build processes keep the calls of each other', async () => {
+  const callersPerProcess = 20;
+  const updateInProcess = (processIndex: number) => new Promise<void>((resolve, reject) => {
+    const script = `
+      const { updateManifest } = require(${JSON.stringify(path.join(__dirname, '../lib/manifest'))});
+      for (let index = 0; index < ${callersPerProcess}; index++) {
+        const computation = { file: 'tests/a.ssr-computation.ts', hasSubscribe: false, contentHash: 'hash', version: 'hash', caller: { chunkName: null, options: [] } };
+        updateManifest(${JSON.stringify(manifestPath)}, 'tests/Caller-${processIndex}-' + index + '.tsx', new Map([['tests/a.ssr-computation', computation]]));
+      }
+    `;
+    execFile(process.execPath, ['-e', script], (error) => (error ? reject(error) : resolve()));
+  });
+
+  await Promise.all([0, 1, 2, 3].map(updateInProcess));
+
+  expect(Object.keys(readManifest()['tests/a.ssr-computation'].callers)).toHaveLength(4 * callersPerProcess);
+  expect(fs.existsSync(`${manifestPath}.lock`)).toBe(false);
+});
+
+test('the lock left by a crashed build process is removed', () => {
+  fs.writeFileSync(`${manifestPath}.lock`, '');
+  const staleTime = new Date(Date.now() - 60 * 1000);
+  fs.utimesSync(`${manifestPath}.lock`, staleTime, staleTime);
+
+  compile('Menu.tsx', `const x = useSSRComputation("./a.ssr-computation", []);`);
+
+  expect(Object.keys(readManifest())).toEqual(['tests/a.ssr-computation']);
+});
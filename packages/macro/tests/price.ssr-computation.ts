@@ -0,0 +1 @@
+export const compute = (price: number, currency: string) => `${price} ${currency}`;
@@ -0,0 +1,4 @@
+@sealed
+export default class PriceFormatter {}
+
+declare function sealed(target: any): void;
@@ -0,0 +1,10 @@
+@sealed
+class PriceFormatter {
+  format(price: number) {
+    return `$${price}`;
+  }
+}
+
+export const compute = (price: number) => new PriceFormatter().format(price);
+
+declare function sealed(target: any): void;
@@ -0,0 +1,9 @@
+import { pluginTest } from './utils';
+
+pluginTest('remote', `
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", [price], { remote: true });
+`, `
+  On server side, the computation file is imported as usual
+  On client side, the computation file isn't imported, and the result is requested from the server
+`);
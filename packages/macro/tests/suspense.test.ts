@@ -0,0 +1,10 @@
+import { pluginTest } from './utils';
+
+pluginTest('suspense mode', `
+  import { useSSRComputation } from "../lib/index.macro"
+
+  const x = useSSRComputation("./a.ssr-computation", [], { suspense: true, webpackChunkName: "custom-chunk-name" });
+`, `
+  The suspense option is kept in the runtime options object
+  On client side, the hook suspends on a cache miss until the result is computed
+`);
@@ -0,0 +1,29 @@
+import { pluginTest } from './utils';
+import { useSSRComputation, useSSRComputationState } from '../src/index.macro';
+
+pluginTest('typed computation', `
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation(import("./price.ssr-computation"), [price, "USD"]);
+`, `
+  The typed form passes the computation file as a dynamic import to infer the types of its dependencies and result.
+  It's compiled the same way as the path of the computation file.
+`);
+
+test('the dependencies and the result are inferred from the "compute" function', () => {
+  // The hooks are replaced by the macro, so the types are only checked and the function is never called
+  const checkTypes = () => {
+    const formattedPrice: string | null = useSSRComputation(import('./price.ssr-computation'), [10, 'USD']);
+    const suspendedPrice: string = useSSRComputation(import('./price.ssr-computation'), [10, 'USD'], { suspense: true });
+    const { result }: { result: string | null } = useSSRComputationState(import('./price.ssr-computation'), [10, 'USD']);
+
+    // @ts-expect-error: the number of the dependencies is wrong
+    useSSRComputation(import('./price.ssr-computation'), [10]);
+    // @ts-expect-error: the type of the dependency is wrong
+    useSSRComputation(import('./price.ssr-computation'), ['10', 'USD']);
+    // @ts-expect-error: the result is a string
+    const wrongResult: number | null = useSSRComputation(import('./price.ssr-computation'), [10, 'USD']);
+
+    return [formattedPrice, suspendedPrice, result, wrongResult];
+  };
+  expect(checkTypes).toBeInstanceOf(Function);
+});
@@ -0,0 +1,2 @@
+// @flow
+export const compute = (price: number): string => `$${price}`;
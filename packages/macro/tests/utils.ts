@@ -1,11 +1,14 @@
+import * as path from "path";
+import { transformSync } from "@babel/core";
+
 const { pluginTester } = require("babel-plugin-tester");
 const plugin = require("babel-plugin-macros");
 
-export function pluginTest(testName: string, testBody: any, testDescription: string | null = null) {
+export function pluginTest(testName: string, testBody: any, testDescription: string | null = null, macroOptions: object = {}) {
   ['server', 'client'].forEach((side) => {
     pluginTester({
       pluginOptions: {
-        useSSRComputation: { side },
+        useSSRComputation: { side, ...macroOptions },
       },
       plugin,
       snapshot: true,
@@ -19,3 +22,13 @@ export function pluginTest(testName: string, testBody: any, testDescription: str
     });
   });
 }
+
+// Compiles the code as if it's in the tests directory, e.g. to check the errors of the macro
+export function transformWithMacro(code: string, side: 'server' | 'client' = 'client', macroOptions: object = {}, filename = 'component.ts') {
+  return transformSync(code, {
+    filename: path.join(__dirname, filename),
+    babelrc: false,
+    configFile: false,
+    plugins: [[plugin, { useSSRComputation: { side, ...macroOptions } }]],
+  });
+}
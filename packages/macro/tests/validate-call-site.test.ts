@@ -0,0 +1,46 @@
+import { transformWithMacro } from './utils';
+
+const transform = (args: string) => transformWithMacro(`
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", ${args});
+`);
+
+test('the valid options and dependencies are compiled', () => {
+  expect(() => transform(`[price, "USD", true, null, { id: 1, tags: ["a"] }, { uniqueId: "user-1", onChange: () => {} }], { skip: !price, placeholder: () => null, serverCacheTtlMs: 1000, remote: false, ...options }`)).not.toThrow();
+});
+
+test('unknown options are reported with the closest valid option', () => {
+  expect(() => transform(`[], { skipp: true }`)).toThrow(/Unknown option "skipp"\. Did you mean "skip"\?\n[\s\S]*> 3 \|   const x = useSSRComputation\("\.\/a\.ssr-computation", \[\], \{ skipp: true \}\);\n\s+\|\s+\^{11}/);
+  expect(() => transform(`[], { webpackChunkname: "menu" }`)).toThrow('Unknown option "webpackChunkname". Did you mean "webpackChunkName"?');
+  expect(() => transform(`[], { cache: true }`)).toThrow('Unknown option "cache". The valid options are: webpackChunkName, remote, worker, skip, suspense,');
+});
+
+test('the chunkName option is reserved for the macro', () => {
+  expect(() => transform(`[], { chunkName: "menu" }`)).toThrow('The chunkName option is set by the macro. Use the webpackChunkName option instead.');
+});
+
+test('the macro options must be literals', () => {
+  expect(() => transform(`[], { webpackChunkName: chunkName }`)).toThrow('The webpackChunkName option must be a string literal.');
+  expect(() => transform(`[], { worker: "true" }`)).toThrow('The worker option must be a boolean literal.');
+});
+
+test('the literal values of the runtime options are type checked', () => {
+  expect(() => transform(`[], { skip: "false" }`)).toThrow(`The skip option must be a boolean, but it's a string.`);
+  expect(() => transform(`[], { serverCacheTtlMs: "1000" }`)).toThrow(`The serverCacheTtlMs option must be a number, but it's a string.`);
+  expect(() => transform(`[], { keepPreviousResult: () => true }`)).toThrow(`The keepPreviousResult option must be a boolean, but it's a function.`);
+});
+
+test('the literal dependencies that the runtime rejects are reported', () => {
+  expect(() => transform(`[price, () => price]`)).toThrow(/Invalid dependency: functions can't be dependencies\.[\s\S]*> 3 \|.*\n\s+\|\s+\^{11}/);
+  expect(() => transform(`[{ format: /\\d+/ }]`)).toThrow(`Invalid dependency: regular expressions can't be dependencies.`);
+  expect(() => transform(`[[1n]]`)).toThrow(`Invalid dependency: BigInt values can't be dependencies.`);
+  expect(() => transform(`[{ format() {} }]`)).toThrow(`Invalid dependency: functions can't be dependencies.`);
+});
+
+test('the call site arguments are reported with code frames', () => {
+  expect(() => transform(`[], options`)).toThrow(/The third argument must be an options object\.\n[\s\S]*> 3 \|/);
+  expect(() => transformWithMacro(`
+    import { useSSRComputation } from "../lib/index.macro"
+    const x = useSSRComputation("./missing.ssr-computation", []);
+  `)).toThrow(/The file \.\/missing\.ssr-computation\(\.ts\/\.js\/\.tsx\/\.jsx\) does not exist\.\n[\s\S]*> 3 \|/);
+});
@@ -0,0 +1,53 @@
+import { transformWithMacro } from './utils';
+
+const transform = (computationPath: string) => transformWithMacro(`
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("${computationPath}", []);
+`);
+
+test('the valid computation files are compiled', () => {
+  expect(() => transform('./a.ssr-computation')).not.toThrow();
+});
+
+test('a default export is reported with code frames of the call site and the export', () => {
+  expect(() => transform('./invalid-computations/default-export.ssr-computation')).toThrow(
+    'The computation file "tests/invalid-computations/default-export.ssr-computation.ts" has a default export only. Export the computation as "compute" instead',
+  );
+  expect(() => transform('./invalid-computations/default-export.ssr-computation')).toThrow(
+    /> 3 \|   const x = useSSRComputation\("\.\/invalid-computations\/default-export\.ssr-computation", \[\]\);/,
+  );
+  expect(() => transform('./invalid-computations/default-export.ssr-computation')).toThrow(
+    /tests\/invalid-computations\/default-export\.ssr-computation\.ts:\n>\s+1 \| export default function formatPrice\(price: number\) \{/,
+  );
+});
+
+test('a misspelled export is reported with the closest export name', () => {
+  expect(() => transform('./invalid-computations/misspelled-subscribe.ssr-computation')).toThrow(
+    /exports "subscibe"\. Did you mean "subscribe"\?[\s\S]*>\s+3 \| export const subscibe = \(getCurrentResult, next\) => \{/,
+  );
+});
+
+test('a missing "compute" export is reported', () => {
+  expect(() => transform('./invalid-computations/missing-compute.ssr-computation')).toThrow(
+    'The computation file "tests/invalid-computations/missing-compute.ssr-computation.ts" must export a "compute" function.',
+  );
+});
+
+test('an async "subscribe" function is reported', () => {
+  expect(() => transform('./invalid-computations/async-subscribe.ssr-computation')).toThrow(
+    /must export "subscribe" as a function that returns the subscription synchronously\.[\s\S]*>\s+3 \| export async function subscribe\(getCurrentResult, next\) \{/,
+  );
+});
+
+test("the computation files are parsed with the project's Babel config", () => {
+  expect(() => transform('./project-config/decorated.ssr-computation')).not.toThrow();
+  expect(() => transform('./project-config/decorated-default-export.ssr-computation')).toThrow('has a default export only');
+});
+
+test("the computation files that can't be parsed aren't verified", () => {
+  expect(() => transform('./unparsable-computations/flow-types.ssr-computation')).not.toThrow();
+});
+
+test("the CommonJS computation files aren't verified", () => {
+  expect(() => transform('./commonjs.ssr-computation')).not.toThrow();
+});
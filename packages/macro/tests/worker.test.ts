@@ -0,0 +1,19 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pluginTest } from './utils';
+
+pluginTest('worker', `
+  import { useSSRComputation } from "../lib/index.macro"
+  const x = useSSRComputation("./a.ssr-computation", [markdown], { worker: true });
+`, `
+  On server side, the computation file is imported as usual
+  On client side, the computation runs in the generated worker entry
+`);
+
+test('the generated worker entry exposes the computation file to the client', () => {
+  const workerEntryPath = path.join(process.cwd(), 'node_modules/.cache/use-ssr-computation/workers/tests_a_ssr_computation.worker.js');
+  const workerEntry = fs.readFileSync(workerEntryPath, 'utf8');
+
+  expect(workerEntry).toContain('import * as ssrComputation from "../../../../tests/a.ssr-computation";');
+  expect(workerEntry).toContain('exposeSSRComputation(ssrComputation);');
+});
@@ -0,0 +1,81 @@
+import { handleError, UseSSRComputationError } from "./errorHandler";
+import { Dependency } from "./utils";
+import { SSRCacheItem } from "./ssrCache";
+
+type SettledComputation =
+  | { status: 'fulfilled', value: unknown }
+  | { status: 'rejected', reason: unknown };
+
+type PendingComputation = {
+  promise: Promise<unknown>;
+  dependencies: Dependency[];
+  relativePathToCwd: string;
+};
+
+export type SSRComputationsCollector = {
+  pending: Map<string, PendingComputation>;
+  settled: Map<string, SettledComputation>;
+  // The items written to the cache during the render passes, so the duplicate calls are computed once
+  renderedCacheItems: WeakSet<SSRCacheItem<unknown>>;
+};
+
+let currentCollector: SSRComputationsCollector | undefined;
+
+export const getSSRComputationsCollector = () => {
+  return currentCollector;
+}
+
+const renderWithCollector = <T>(collector: SSRComputationsCollector, render: () => T): T => {
+  const previousCollector = currentCollector;
+  currentCollector = collector;
+  try {
+    return render();
+  } finally {
+    currentCollector = previousCollector;
+  }
+}
+
+type CollectOptions = {
+  // The maximum number of render passes. Computations that are still pending after the last pass return `null`
+  // and are reported to the error handler.
+  maxPasses?: number;
+};
+
+// Renders the app (e.g. `() => renderToString(app)`) and waits for the async computations started during the render.
+// Then it renders the app again with the resolved results, until there are no more pending computations.
+// The output of the last render is returned, and the cache contains the results of all computations.
+export const collectSSRComputations = async <T>(render: () => T, { maxPasses = 10 }: CollectOptions = {}): Promise<T> => {
+  const collector: SSRComputationsCollector = {
+    pending: new Map(),
+    settled: new Map(),
+    renderedCacheItems: new WeakSet(),
+  };
+
+  let output = renderWithCollector(collector, render);
+  for (let pass = 1; pass < maxPasses && collector.pending.size > 0; pass++) {
+    const pendingEntries = Array.from(collector.pending.entries());
+    collector.pending.clear();
+
+    const settledResults = await Promise.allSettled(pendingEntries.map(([, { promise }]) => promise));
+    settledResults.forEach((settledResult, index) => {
+      const [cacheKey] = pendingEntries[index];
+      collector.settled.set(cacheKey, settledResult);
+    });
+
+    output = renderWithCollector(collector, render);
+  }
+
+  // The output is rendered without the results of the computations that are still pending after the last pass.
+  // They aren't awaited anymore, but their rejections are still reported instead of becoming unhandled rejections.
+  collector.pending.forEach(({ promise, dependencies, relativePathToCwd }) => {
+    handleError(new UseSSRComputationError(
+      `useSSRComputation: the computation is still pending after the last of ${maxPasses} render passes (the "maxPasses" option), so it's rendered without its result`,
+      dependencies,
+      relativePathToCwd,
+    ));
+    promise.then(undefined, (error) => {
+      handleError(new UseSSRComputationError(`useSSRComputation: the computation rejected after the last render pass: ${String(error)}`, dependencies, relativePathToCwd, error));
+    });
+  });
+  return output;
+}
@@ -0,0 +1,15 @@
+import { prefetchSSRComputation, registerSSRComputation } from "./computationRegistry";
+import { SSRComputationModule } from "./utils";
+
+test('prefetchSSRComputation downloads the registered computation', async () => {
+  const ssrComputationModule: SSRComputationModule<number> = { compute: () => 1 };
+  const importFn = jest.fn(() => Promise.resolve(ssrComputationModule));
+  registerSSRComputation('app/prefetched.ssr-computation', importFn);
+
+  await expect(prefetchSSRComputation('app/prefetched.ssr-computation')).resolves.toBe(ssrComputationModule);
+  expect(importFn).toHaveBeenCalledTimes(1);
+});
+
+test('prefetchSSRComputation rejects if the computation is not registered', async () => {
+  await expect(prefetchSSRComputation('app/unknown.ssr-computation')).rejects.toThrow('"app/unknown.ssr-computation" is not registered');
+});
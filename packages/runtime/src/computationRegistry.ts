@@ -0,0 +1,20 @@
+import { ClientComputationFunction, SSRComputationModule } from "./utils";
+import { importWithRetry } from "./importRetryPolicy";
+
+// The dynamic import functions of the computations, registered by the code generated by the macro on the client side.
+// They're keyed by the path of the computation file relative to the cwd of the build, like the cache keys.
+const importFunctions = new Map<string, ClientComputationFunction<unknown>>();
+
+export const registerSSRComputation = <TResult>(relativePathToCwd: string, importFn: ClientComputationFunction<TResult>) => {
+  importFunctions.set(relativePathToCwd, importFn as ClientComputationFunction<unknown>);
+}
+
+// Downloads the chunk of the computation before it's rendered, e.g. when the user hovers over a link.
+// The computation must be used by a module that is already loaded, so its import function is registered.
+export const prefetchSSRComputation = (relativePathToCwd: string): Promise<SSRComputationModule<unknown>> => {
+  const importFn = importFunctions.get(relativePathToCwd);
+  if (!importFn) {
+    return Promise.reject(new Error(`useSSRComputation: the computation "${relativePathToCwd}" is not registered. Make sure that a module that uses it is loaded.`));
+  }
+  return importWithRetry(importFn);
+}
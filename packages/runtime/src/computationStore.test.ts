@@ -0,0 +1,113 @@
+import { act, renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import { getSSRCache, setSSRCache } from "./ssrCache";
+import { fetchSubscriptions, resetSubscriptions } from "./subscriptions";
+import { setErrorHandler } from "./errorHandler";
+import { calculateCacheKey, SSRComputationModule } from "./utils";
+import { invalidateSSRComputation } from "./computationStore";
+
+const relativePathToCwd = 'app/time.ssr-computation';
+
+const createSubscriptionModule = () => {
+  let next: ((value: number) => void) | undefined;
+  const subscribe = jest.fn((_getCurrentResult, nextFn) => {
+    next = nextFn;
+    return {
+      unsubscribe: jest.fn(() => {
+        next = undefined;
+      }),
+    };
+  });
+  const ssrComputationModule: SSRComputationModule<number> = { compute: () => 1, subscribe };
+  const importFn = () => Promise.resolve(ssrComputationModule);
+  const emit = (value: number) => next?.(value);
+  return { importFn, subscribe, emit, isSubscribed: () => !!next };
+}
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  setSSRCache({});
+  resetSubscriptions();
+  setErrorHandler((error) => {
+    throw error;
+  });
+});
+
+test('the hooks of the same cache key share one subscription and are all rerendered by its results', async () => {
+  getSSRCache()[calculateCacheKey(relativePathToCwd, [])] = { result: 0, isSubscription: true };
+  const { importFn, subscribe, emit, isSubscribed } = createSubscriptionModule();
+  const hooks = [1, 2, 3].map(() => renderHook(() => useSSRComputation_Client(importFn, [], {}, relativePathToCwd)));
+
+  await act(async () => {
+    fetchSubscriptions();
+    await flushPromises();
+  });
+  expect(subscribe).toHaveBeenCalledTimes(1);
+  hooks.forEach(({ result }) => expect(result.current).toBe(1));
+
+  act(() => emit(5));
+  hooks.forEach(({ result }) => expect(result.current).toBe(5));
+
+  hooks[0].unmount();
+  hooks[1].unmount();
+  expect(isSubscribed()).toBe(true);
+  act(() => emit(6));
+  expect(hooks[2].result.current).toBe(6);
+
+  hooks[2].unmount();
+  expect(isSubscribed()).toBe(false);
+});
+
+test('the hooks of different cache keys have their own subscriptions', async () => {
+  const { importFn, subscribe } = createSubscriptionModule();
+  const first = renderHook(() => useSSRComputation_Client(importFn, ['first'], {}, relativePathToCwd));
+  const second = renderHook(() => useSSRComputation_Client(importFn, ['second'], {}, relativePathToCwd));
+
+  await act(async () => {
+    await flushPromises();
+  });
+  expect(subscribe).toHaveBeenCalledTimes(2);
+
+  first.unmount();
+  expect(subscribe.mock.results[0].value.unsubscribe).toHaveBeenCalledTimes(1);
+  expect(subscribe.mock.results[1].value.unsubscribe).not.toHaveBeenCalled();
+  second.unmount();
+  expect(subscribe.mock.results[1].value.unsubscribe).toHaveBeenCalledTimes(1);
+});
+
+describe('invalidateSSRComputation', () => {
+  const createCountingModule = () => {
+    let callsCount = 0;
+    const ssrComputationModule: SSRComputationModule<string> = {
+      compute: (name) => `${String(name)} ${++callsCount}`,
+    };
+    return () => Promise.resolve(ssrComputationModule);
+  }
+
+  test('makes the mounted hooks of the passed dependencies recompute their results', async () => {
+    const importFn = createCountingModule();
+    const first = renderHook(() => useSSRComputation_Client(importFn, ['first'], {}, relativePathToCwd));
+    await first.waitForNextUpdate();
+    const second = renderHook(() => useSSRComputation_Client(importFn, ['second'], {}, relativePathToCwd));
+    await second.waitForNextUpdate();
+    expect(first.result.current).toBe('first 1');
+    expect(second.result.current).toBe('second 2');
+
+    // The module is already loaded, so the result is recomputed synchronously
+    act(() => invalidateSSRComputation(relativePathToCwd, ['first']));
+    expect(first.result.current).toBe('first 3');
+    expect(second.result.current).toBe('second 2');
+  });
+
+  test('removes the cached results of all dependencies if they are not passed', () => {
+    const cache = getSSRCache();
+    cache[calculateCacheKey(relativePathToCwd, ['first'])] = { result: 'first', isSubscription: false };
+    cache[calculateCacheKey(relativePathToCwd, ['second'])] = { result: 'second', isSubscription: false };
+    cache[calculateCacheKey('app/other.ssr-computation', ['first'])] = { result: 'other', isSubscription: false };
+
+    invalidateSSRComputation(relativePathToCwd);
+
+    expect(Object.keys(cache)).toEqual([calculateCacheKey('app/other.ssr-computation', ['first'])]);
+  });
+});
@@ -0,0 +1,197 @@
+import { getSSRCache, getValidCacheItem, setCacheItem, SSRCache } from "./ssrCache";
+import {
+  calculateCacheKey,
+  Dependency,
+  NoResult,
+  NoResultType,
+  parseDependencies,
+  SSRComputationModule,
+  Subscription,
+} from "./utils";
+import { handleError, UseSSRComputationError } from "./errorHandler";
+import {
+  areSubscriptionsPaused,
+  PausableSubscription,
+  registerLiveSubscription,
+  unregisterLiveSubscription,
+} from "./subscriptions";
+
+type CacheItemListener = () => void;
+
+export type SubscriptionTarget<TResult> = {
+  module: SSRComputationModule<TResult>;
+  dependencies: Dependency[];
+  relativePathToCwd: string;
+  version: string | undefined;
+};
+
+// Implemented by the hooks that use a shared subscription
+export type SubscriptionConsumer = {
+  onSubscriptionError: (error: UseSSRComputationError) => void;
+};
+
+// The listeners and the subscriptions are stored per cache and cache key, so the hooks that use the same computation
+// with the same dependencies share them, and independently hydrated React roots don't affect each other.
+const cacheItemListeners = new WeakMap<SSRCache, Map<string, Set<CacheItemListener>>>();
+const sharedSubscriptions = new WeakMap<SSRCache, Map<string, SharedSubscription<unknown>>>();
+
+const getCacheEntries = <TValue>(store: WeakMap<SSRCache, Map<string, TValue>>, cache: SSRCache) => {
+  let entries = store.get(cache);
+  if (!entries) {
+    entries = new Map();
+    store.set(cache, entries);
+  }
+  return entries;
+}
+
+// Registers a listener that is called when the cached result of the cache key is updated on the client side.
+// Returns a function that removes it.
+export const subscribeToCacheItem = (cache: SSRCache, cacheKey: string, listener: CacheItemListener): () => void => {
+  const listenersByCacheKey = getCacheEntries(cacheItemListeners, cache);
+  const listeners = listenersByCacheKey.get(cacheKey) ?? new Set<CacheItemListener>();
+  listeners.add(listener);
+  listenersByCacheKey.set(cacheKey, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && listenersByCacheKey.get(cacheKey) === listeners) {
+      listenersByCacheKey.delete(cacheKey);
+    }
+  };
+}
+
+export const hasCacheItemListeners = (cache: SSRCache, cacheKey: string) => {
+  return !!cacheItemListeners.get(cache)?.get(cacheKey)?.size;
+}
+
+export const notifyCacheItemListeners = (cache: SSRCache, cacheKey: string) => {
+  const listeners = cacheItemListeners.get(cache)?.get(cacheKey);
+  // The listeners can be removed while they're called (e.g. if a component is unmounted)
+  listeners && Array.from(listeners).forEach((listener) => listener());
+}
+
+// The number of times each cache key is invalidated. The hooks recompute the result when it changes.
+const invalidationCounts = new WeakMap<SSRCache, Map<string, number>>();
+
+export const getInvalidationCount = (cache: SSRCache, cacheKey: string) => {
+  return invalidationCounts.get(cache)?.get(cacheKey) ?? 0;
+}
+
+// Removes the cached results of the computation, and makes the mounted hooks that use them recompute the results.
+// If the dependencies aren't passed, the results of all dependencies are invalidated.
+export const invalidateSSRComputation = (relativePathToCwd: string, dependencies?: Dependency[], cache: SSRCache = getSSRCache()) => {
+  let cacheKeys: string[];
+  if (dependencies) {
+    cacheKeys = [calculateCacheKey(relativePathToCwd, parseDependencies(dependencies))];
+  } else {
+    // The cache keys of the mounted hooks are included, because their results may not be cached (e.g. when they're skipped)
+    const keyPrefix = calculateCacheKey(relativePathToCwd, []);
+    const mountedCacheKeys = Array.from(cacheItemListeners.get(cache)?.keys() ?? []);
+    cacheKeys = Array.from(new Set([...Object.keys(cache), ...mountedCacheKeys]))
+      .filter((cacheKey) => cacheKey.startsWith(keyPrefix));
+  }
+
+  invalidateCacheKeys(cache, cacheKeys);
+  cacheKeys.forEach((cacheKey) => notifyCacheItemListeners(cache, cacheKey));
+}
+
+// Removes the cached results and makes the mounted hooks create new executors that recompute them,
+// once they're rerendered (see `notifyCacheItemListeners`)
+export const invalidateCacheKeys = (cache: SSRCache, cacheKeys: string[]) => {
+  const invalidationCountsByCacheKey = getCacheEntries(invalidationCounts, cache);
+  cacheKeys.forEach((cacheKey) => {
+    delete cache[cacheKey];
+    invalidationCountsByCacheKey.set(cacheKey, getInvalidationCount(cache, cacheKey) + 1);
+  });
+}
+
+// A single subscription to the computation, shared by all hooks that use the same cache key.
+// Its results are written into the cache and all hooks of the cache key are rerendered.
+class SharedSubscription<TResult> implements PausableSubscription {
+  consumers = new Set<SubscriptionConsumer>();
+  private subscription: Subscription | undefined;
+
+  constructor(
+    private readonly cache: SSRCache,
+    private readonly cacheKey: string,
+    private readonly target: SubscriptionTarget<TResult>,
+  ) {}
+
+  private getCurrentResult = () => {
+    const cacheItem = getValidCacheItem(this.cache, this.cacheKey, this.target.version);
+    return (cacheItem ? cacheItem.result : null) as TResult | null;
+  }
+
+  private next = (newResult: TResult | NoResultType) => {
+    if (!this.subscription || newResult === NoResult || newResult === this.getCurrentResult()) return;
+    setCacheItem(this.cache, this.cacheKey, {
+      result: newResult,
+      isSubscription: true,
+      version: this.target.version,
+    });
+    notifyCacheItemListeners(this.cache, this.cacheKey);
+  }
+
+  // The error is reported once, and every consumer is notified to update its status
+  private reportError = (error: unknown) => {
+    const { dependencies, relativePathToCwd } = this.target;
+    const useSSRComputationError = new UseSSRComputationError(String(error), dependencies, relativePathToCwd, error);
+    this.consumers.forEach((consumer) => consumer.onSubscriptionError(useSSRComputationError));
+    handleError(useSSRComputationError);
+  }
+
+  pauseSubscription = () => {
+    const { subscription } = this;
+    this.subscription = undefined;
+    subscription?.unsubscribe();
+  }
+
+  resumeSubscription = () => {
+    if (this.subscription || this.consumers.size === 0) return;
+    const { module, dependencies } = this.target;
+    // `next` ignores the results emitted after unsubscribing, so a placeholder is set before calling `subscribe`
+    // to accept the results emitted synchronously by it.
+    this.subscription = { unsubscribe: () => {} };
+    try {
+      const subscription = module.subscribe?.(this.getCurrentResult, this.next, ...dependencies);
+      if (this.subscription) {
+        this.subscription = subscription;
+      } else {
+        subscription?.unsubscribe();
+      }
+    } catch (error) {
+      this.subscription = undefined;
+      this.reportError(error);
+    }
+  }
+}
+
+// Subscribes to the computation once per cache key, and keeps the subscription until all of its consumers release it.
+// Returns a function that releases the subscription.
+export const acquireSubscription = <TResult>(
+  cache: SSRCache,
+  cacheKey: string,
+  target: SubscriptionTarget<TResult>,
+  consumer: SubscriptionConsumer,
+): () => void => {
+  const subscriptionsByCacheKey = getCacheEntries(sharedSubscriptions, cache);
+  let sharedSubscription = subscriptionsByCacheKey.get(cacheKey);
+  if (!sharedSubscription) {
+    sharedSubscription = new SharedSubscription(cache, cacheKey, target as SubscriptionTarget<unknown>);
+    subscriptionsByCacheKey.set(cacheKey, sharedSubscription);
+    // Live subscriptions are registered, so they can be paused and resumed by `pauseSubscriptions` and `resumeSubscriptions`
+    registerLiveSubscription(sharedSubscription);
+  }
+  sharedSubscription.consumers.add(consumer);
+  if (!areSubscriptionsPaused()) {
+    sharedSubscription.resumeSubscription();
+  }
+
+  const acquiredSubscription = sharedSubscription;
+  return () => {
+    if (!acquiredSubscription.consumers.delete(consumer) || acquiredSubscription.consumers.size > 0) return;
+    subscriptionsByCacheKey.delete(cacheKey);
+    unregisterLiveSubscription(acquiredSubscription);
+    acquiredSubscription.pauseSubscription();
+  };
+}
@@ -0,0 +1,114 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { Dependency, isDependency, NoResult, SSRComputationModule } from "./utils";
+import { decodeValue, encodeValue } from "./serialization";
+import { handleError, UseSSRComputationError } from "./errorHandler";
+
+export type SSRComputationHandlerOptions = {
+  // The computations that can be executed remotely, keyed by their paths relative to the cwd of the build
+  // (e.g. { "app/formattedTime.ssr-computation": formattedTimeComputation }). Other paths are rejected.
+  modules: Record<string, SSRComputationModule<unknown>>;
+  // The maximum size of the request body in bytes, the larger requests are rejected with the 413 status (defaults to 1 MB)
+  maxBodyBytes?: number;
+};
+
+class RequestBodyTooLargeError extends Error {}
+
+const sendJSON = (res: ServerResponse, statusCode: number, body: object) => {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+const readBody = (req: IncomingMessage, maxBodyBytes: number) => new Promise<string>((resolve, reject) => {
+  if (Number(req.headers['content-length']) > maxBodyBytes) {
+    reject(new RequestBodyTooLargeError());
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let bodyBytes = 0;
+  const onData = (chunk: Buffer) => {
+    bodyBytes += chunk.length;
+    if (bodyBytes > maxBodyBytes) {
+      req.off('data', onData);
+      reject(new RequestBodyTooLargeError());
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const parseRequestBody = (body: string): { path: unknown, dependencies: unknown } | undefined => {
+  try {
+    const { path, dependencies } = JSON.parse(body);
+    return { path, dependencies: decodeValue(dependencies) };
+  } catch {
+    return undefined;
+  }
+}
+
+// Returns a Node request handler that executes the computations requested by the computations with the "remote" option.
+// It doesn't depend on a framework, so it can be used with `http.createServer`, Express or any compatible server.
+export const createSSRComputationHandler = ({ modules, maxBodyBytes = 1024 * 1024 }: SSRComputationHandlerOptions) => {
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJSON(res, 405, { error: 'Only POST requests are allowed' });
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(req, maxBodyBytes);
+    } catch (error) {
+      if (error instanceof RequestBodyTooLargeError) {
+        // The rest of the body isn't read, so the connection is closed once the response is sent
+        res.setHeader('Connection', 'close');
+        res.once('finish', () => req.destroy());
+        sendJSON(res, 413, { error: `The request body must not exceed ${maxBodyBytes} bytes` });
+      } else {
+        sendJSON(res, 400, { error: "The request body can't be read" });
+      }
+      return;
+    }
+
+    const requestBody = parseRequestBody(body);
+    if (!requestBody || !Array.isArray(requestBody.dependencies) || !requestBody.dependencies.every(isDependency)) {
+      sendJSON(res, 400, { error: 'The request body must be a JSON object with the "path" and "dependencies" properties' });
+      return;
+    }
+
+    const { path, dependencies } = requestBody as { path: unknown, dependencies: Dependency[] };
+    if (typeof path !== 'string' || !Object.prototype.hasOwnProperty.call(modules, path)) {
+      sendJSON(res, 404, { error: `The computation ${JSON.stringify(path)} is not registered in the handler` });
+      return;
+    }
+
+    try {
+      const result = await modules[path].compute(...dependencies);
+      sendJSON(res, 200, result === NoResult ? { noResult: true } : { result: encodeValue(result) });
+    } catch (error) {
+      // The details of the error are passed to the error handler on the server only
+      handleError(new UseSSRComputationError(String(error), dependencies, path, error));
+      sendJSON(res, 500, { error: 'The computation failed' });
+    }
+  };
+
+  // The servers don't handle the rejections of the request handlers, so the handler never rejects
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    try {
+      await handleRequest(req, res);
+    } catch (error) {
+      // The computation isn't known when the request itself fails
+      handleError(new UseSSRComputationError(`The request to ${req.url ?? ''} failed: ${String(error)}`, [], '', error));
+      if (!res.headersSent) {
+        sendJSON(res, 500, { error: 'The request failed' });
+      } else {
+        res.destroy();
+      }
+    }
+  };
+}
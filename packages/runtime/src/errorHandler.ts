@@ -1,8 +1,11 @@
 import {
   ClientComputationFunction,
   Dependency,
+  isPromise,
   ServerComputationFunction,
   SSRComputationHook,
+  SSRComputationState,
+  SSRComputationStateHook,
 } from "./utils";
 
 export class InternalUseSSRComputationError extends Error {
@@ -44,25 +47,54 @@ export const handleError = (error: UseSSRComputationError) => {
   }
 }
 
+const toUseSSRComputationError = (error: unknown, args: Parameters<SSRComputationHook<unknown, any>>) => {
+  let message = '';
+  let result = null;
+
+  if (error instanceof InternalUseSSRComputationError) {
+    message = error.message;
+    result = error.result;
+  } else {
+    message = String(error);
+  }
+
+  const [_, dependencies, __, relativePathToCwd] = args;
+  return new UseSSRComputationError(message, dependencies, relativePathToCwd, error, result);
+}
+
 export const wrapErrorHandler = <TResult, T extends ServerComputationFunction<TResult> | ClientComputationFunction<TResult>>(useSSRComputation: SSRComputationHook<TResult, T>): SSRComputationHook<TResult, T> => {
   return (...args: Parameters<SSRComputationHook<TResult, T>>): TResult | null => {
     try {
       return useSSRComputation(...args);
     } catch (error) {
-      let message = '';
-      let result = null;
+      // Promises are thrown to suspend the component, they must reach the closest `<Suspense>` boundary
+      if (isPromise(error)) throw error;
 
-      if (error instanceof InternalUseSSRComputationError) {
-        message = error.message;
-        result = error.result;
-      } else {
-        message = String(error);
-      }
+      const useSSRComputationError = toUseSSRComputationError(error, args);
+      handleError(useSSRComputationError);
+      // The result isn't nullable in suspense mode, so the error is thrown to the closest error boundary
+      const [, , options] = args;
+      if (options?.suspense) throw useSSRComputationError;
+      return useSSRComputationError.result;
+    }
+  };
+}
+
+export const wrapStateErrorHandler = <TResult, T extends ServerComputationFunction<TResult> | ClientComputationFunction<TResult>>(useSSRComputationState: SSRComputationStateHook<TResult, T>): SSRComputationStateHook<TResult, T> => {
+  return (...args: Parameters<SSRComputationStateHook<TResult, T>>): SSRComputationState<TResult> => {
+    try {
+      return useSSRComputationState(...args);
+    } catch (error) {
+      if (isPromise(error)) throw error;
 
-      const [_, dependencies, __, relativePathToCwd] = args;
-      const useSSRComputationError = new UseSSRComputationError(message, dependencies, relativePathToCwd, error, result);
+      const useSSRComputationError = toUseSSRComputationError(error, args);
       handleError(useSSRComputationError);
-      return result;
+      return {
+        result: useSSRComputationError.result ?? null,
+        status: 'error',
+        error: useSSRComputationError,
+        isFromSSRCache: false,
+      };
     }
   };
 }
@@ -1,11 +1,8 @@
 declare global {
-  type SSRCache = {
-    [key: string]: {
-       value: any;
-    }
-   }   
   interface Window {
-    __SSR_CACHE__: SSRCache;
+    // The encoded cache embedded by `renderSSRCacheScript`, or the chunks pushed by `createSSRCacheScriptFlusher`
+    // (with the default global name). It's decoded by `hydrateSSRCache`.
+    __SSR_COMPUTATION_CACHE?: object | object[];
   }
 }
 
@@ -0,0 +1,91 @@
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import { setSSRCache } from "./ssrCache";
+import { setErrorHandler, UseSSRComputationError } from "./errorHandler";
+import { importWithRetry, setImportRetryPolicy } from "./importRetryPolicy";
+import { SSRComputationModule } from "./utils";
+
+const relativePathToCwd = 'example/example.js';
+const dependencies = [1];
+
+const createFailingImportFn = <TResult>(failures: number, ssrComputationModule: SSRComputationModule<TResult>) => {
+  return jest.fn(() => {
+    if (failures > 0) {
+      failures -= 1;
+      return Promise.reject(new Error('Loading chunk failed'));
+    }
+    return Promise.resolve(ssrComputationModule);
+  });
+}
+
+let errorHandler: jest.Mock;
+
+beforeEach(() => {
+  setSSRCache({});
+  setImportRetryPolicy({});
+  errorHandler = jest.fn();
+  setErrorHandler(errorHandler);
+});
+
+test('useSSRComputation_Client reports the errors of loading the computation file to the "errorHandler"', async () => {
+  const importFn = createFailingImportFn(1, { compute: () => 5 });
+  renderHook(() => useSSRComputation_Client(importFn, dependencies, {}, relativePathToCwd));
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(errorHandler).toHaveBeenCalledTimes(1);
+  const reportedError: UseSSRComputationError = errorHandler.mock.calls[0][0];
+  expect(reportedError).toBeInstanceOf(UseSSRComputationError);
+  expect(reportedError.message).toContain('Loading chunk failed');
+  expect(reportedError.ssrComputationFile).toBe(relativePathToCwd);
+  expect(reportedError.dependencies).toEqual(dependencies);
+});
+
+test('useSSRComputation_Client reports the modules without the "compute" function and the async compute errors', async () => {
+  const importFn = jest.fn(() => Promise.resolve({} as SSRComputationModule<number>));
+  renderHook(() => useSSRComputation_Client(importFn, dependencies, {}, relativePathToCwd));
+
+  const rejectingImportFn = () => Promise.resolve({ compute: () => Promise.reject(new Error('Async compute failed')) });
+  renderHook(() => useSSRComputation_Client(rejectingImportFn, dependencies, {}, relativePathToCwd));
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(errorHandler).toHaveBeenCalledTimes(2);
+  expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({
+    message: expect.stringContaining('must have a compute function'),
+  }));
+  expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({
+    message: expect.stringContaining('Async compute failed'),
+  }));
+});
+
+test('useSSRComputation_Client retries loading the computation file according to the retry policy', async () => {
+  setImportRetryPolicy({ attempts: 3, initialDelayMs: 10 });
+  const importFn = createFailingImportFn(2, { compute: () => 5 });
+  const { result, waitForNextUpdate } = renderHook(() => useSSRComputation_Client(importFn, dependencies, {}, relativePathToCwd));
+
+  await waitForNextUpdate();
+  expect(result.current).toBe(5);
+  expect(importFn).toHaveBeenCalledTimes(3);
+  expect(errorHandler).not.toHaveBeenCalled();
+});
+
+test('importWithRetry waits with an exponential backoff and throws the last error', async () => {
+  jest.useFakeTimers();
+  try {
+    setImportRetryPolicy({ attempts: 3, initialDelayMs: 100, backoffFactor: 3 });
+    const importFn = createFailingImportFn(5, { compute: () => 5 });
+    const importPromise = importWithRetry(importFn);
+    const rejection = expect(importPromise).rejects.toThrow('Loading chunk failed');
+
+    await jest.advanceTimersByTimeAsync(99);
+    expect(importFn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(importFn).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(299);
+    expect(importFn).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(importFn).toHaveBeenCalledTimes(3);
+    await rejection;
+  } finally {
+    jest.useRealTimers();
+  }
+});
@@ -0,0 +1,35 @@
+export type ImportRetryPolicy = {
+  // The total number of attempts to import the computation file, including the first one
+  attempts: number;
+  // The delay before the first retry, it's multiplied by `backoffFactor` before every next retry
+  initialDelayMs: number;
+  backoffFactor: number;
+};
+
+const defaultImportRetryPolicy: ImportRetryPolicy = {
+  attempts: 1,
+  initialDelayMs: 500,
+  backoffFactor: 2,
+};
+let importRetryPolicy = defaultImportRetryPolicy;
+
+export const setImportRetryPolicy = (policy: Partial<ImportRetryPolicy>) => {
+  importRetryPolicy = { ...defaultImportRetryPolicy, ...policy };
+}
+
+const wait = (delayMs: number) => new Promise<void>((resolve) => setTimeout(resolve, delayMs));
+
+// Dynamic imports fail frequently on flaky networks (or after deploys), so they're retried with an exponential backoff.
+export const importWithRetry = async <T>(importFn: () => Promise<T>): Promise<T> => {
+  const { attempts, initialDelayMs, backoffFactor } = importRetryPolicy;
+  let delayMs = initialDelayMs;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await importFn();
+    } catch (error) {
+      if (attempt >= attempts) throw error;
+      await wait(delayMs);
+      delayMs *= backoffFactor;
+    }
+  }
+}
@@ -1,4 +1,32 @@
 export { setErrorHandler, UseSSRComputationError } from './errorHandler';
-export { setSSRCache } from './ssrCache';
-export { Subscription, NoResult, NoResultType } from "./utils";
-export { fetchSubscriptions } from './subscriptions';
+export { setImportRetryPolicy, ImportRetryPolicy } from './importRetryPolicy';
+export { setSSRCache, getSSRCache, configureSSRCache, SSRCachePolicy, runWithSSRCache, SSRComputationProvider, SSRCache, SSRCacheItem } from './ssrCache';
+export { Subscription, NoResult, NoResultType, SSRComputationState, SSRComputationStatus } from "./utils";
+export { fetchSubscriptions, pauseSubscriptions, resumeSubscriptions, resetSubscriptions, SubscriptionsFilter } from './subscriptions';
+export { collectSSRComputations } from './collectSSRComputations';
+export { renderSSRCacheScript, createSSRCacheScriptFlusher, hydrateSSRCache, serializeSSRCache, deserializeSSRCache } from './serialization';
+export { prefetchSSRComputation } from './computationRegistry';
+export { invalidateSSRComputation } from './computationStore';
+export { configureRemoteComputations, RemoteComputationsConfig } from './remoteComputation';
+export { createSSRComputationHandler, SSRComputationHandlerOptions } from './createSSRComputationHandler';
+export { configureSSRComputationWorkers, SSRComputationWorkersConfig } from './workerComputation';
+export { configureServerCache, clearServerCache, ServerCachePolicy, ServerCacheConfig } from './serverCache';
+export { setVerifyOnHydrate } from './verifyOnHydrate';
+export { configurePayloadBudget, PayloadBudgetPolicy } from './payloadBudget';
+export {
+  setInstrumentation,
+  getSSRComputationStats,
+  resetSSRComputationStats,
+  SSRComputationInstrumentation,
+  SSRComputationEvent,
+  SSRComputationComputeEndEvent,
+  SSRComputationChunkLoadEvent,
+  SSRComputationModuleStats,
+} from './instrumentation';
+export {
+  checkSSRCacheAgainstManifest,
+  SSRComputationsManifest,
+  SSRComputationsManifestEntry,
+  SSRComputationsManifestCaller,
+  SSRCacheManifestMismatch,
+} from './manifest';
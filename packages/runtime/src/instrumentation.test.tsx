@@ -0,0 +1,145 @@
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Server from "./useSSRComputation_Server";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import { getSSRComputationStats, resetSSRComputationStats, setInstrumentation } from "./instrumentation";
+import { runWithSSRCache, setSSRCache } from "./ssrCache";
+import { setErrorHandler } from "./errorHandler";
+import { calculateCacheKey, SSRComputationModule } from "./utils";
+
+const relativePathToCwd = 'app/menu.ssr-computation';
+const cacheKey = calculateCacheKey(relativePathToCwd, ['en']);
+
+beforeEach(() => {
+  resetSSRComputationStats();
+  setInstrumentation({});
+  setErrorHandler((error) => {
+    throw error;
+  });
+});
+
+test('the server hook reports the computations and the cache hits', () => {
+  const onComputeStart = jest.fn();
+  const onComputeEnd = jest.fn();
+  const onCacheHit = jest.fn();
+  const onCacheMiss = jest.fn();
+  setInstrumentation({ onComputeStart, onComputeEnd, onCacheHit, onCacheMiss });
+  const compute = jest.fn((locale) => ({ title: `Menu in ${locale}` }));
+
+  runWithSSRCache({}, () => {
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+  });
+
+  const event = { side: 'server', relativePathToCwd, cacheKey };
+  expect(onComputeStart).toHaveBeenCalledTimes(1);
+  expect(onComputeStart).toHaveBeenCalledWith(event);
+  expect(onComputeEnd).toHaveBeenCalledTimes(1);
+  expect(onComputeEnd).toHaveBeenCalledWith({
+    ...event,
+    durationMs: expect.any(Number),
+    serializedSize: JSON.stringify({ title: 'Menu in en' }).length,
+  });
+  expect(onCacheMiss).toHaveBeenCalledTimes(1);
+  expect(onCacheHit).toHaveBeenCalledTimes(1);
+  expect(onCacheHit).toHaveBeenCalledWith(event);
+});
+
+test('the failed computations are reported with their errors', () => {
+  const onComputeEnd = jest.fn();
+  setInstrumentation({ onComputeEnd });
+  const error = new Error('Computation failed');
+  setErrorHandler(() => {});
+
+  runWithSSRCache({}, () => {
+    renderHook(() => useSSRComputation_Server({ compute: () => { throw error; } }, ['en'], {}, relativePathToCwd));
+  });
+
+  expect(onComputeEnd).toHaveBeenCalledWith(expect.objectContaining({ error, serializedSize: undefined }));
+  expect(getSSRComputationStats()[relativePathToCwd]).toMatchObject({ computeCount: 1, errorCount: 1 });
+});
+
+test('the client hook reports the chunk loads, the computations and the cache misses', async () => {
+  setSSRCache({});
+  const onChunkLoad = jest.fn();
+  const onComputeEnd = jest.fn();
+  const onCacheMiss = jest.fn();
+  setInstrumentation({ onChunkLoad, onComputeEnd, onCacheMiss });
+  const computationModule: SSRComputationModule<string> = { compute: (locale) => `Menu in ${locale}` };
+
+  const { result, waitForNextUpdate } = renderHook(() => useSSRComputation_Client(() => Promise.resolve(computationModule), ['en'], {}, relativePathToCwd));
+  await waitForNextUpdate();
+
+  expect(result.current).toBe('Menu in en');
+  expect(onChunkLoad).toHaveBeenCalledWith({ relativePathToCwd, durationMs: expect.any(Number) });
+  expect(onComputeEnd).toHaveBeenCalledWith({ side: 'client', relativePathToCwd, cacheKey, durationMs: expect.any(Number), serializedSize: undefined });
+  expect(onCacheMiss).toHaveBeenCalledWith({ side: 'client', relativePathToCwd, cacheKey });
+});
+
+test('the client hook reports the hydrated results as cache hits', () => {
+  setSSRCache({ [cacheKey]: { result: 'Menu in en', isSubscription: false } });
+  const onCacheHit = jest.fn();
+  setInstrumentation({ onCacheHit });
+  const importFn = jest.fn(() => Promise.resolve<SSRComputationModule<string>>({ compute: (locale) => `Menu in ${locale}` }));
+
+  const { result } = renderHook(() => useSSRComputation_Client(importFn, ['en'], {}, relativePathToCwd));
+
+  expect(result.current).toBe('Menu in en');
+  expect(onCacheHit).toHaveBeenCalledWith({ side: 'client', relativePathToCwd, cacheKey });
+  expect(importFn).not.toHaveBeenCalled();
+});
+
+test('getSSRComputationStats aggregates the counts and the timings per computation file', () => {
+  setInstrumentation({ measureSerializedSize: true });
+  const compute = jest.fn((locale) => `Menu in ${locale}`);
+  runWithSSRCache({}, () => {
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+    renderHook(() => useSSRComputation_Server({ compute }, ['fr'], {}, relativePathToCwd));
+    renderHook(() => useSSRComputation_Server({ compute }, ['fr'], {}, relativePathToCwd));
+  });
+
+  const stats = getSSRComputationStats();
+  expect(stats).toEqual({
+    [relativePathToCwd]: {
+      computeCount: 2,
+      errorCount: 0,
+      totalDurationMs: expect.any(Number),
+      maxDurationMs: expect.any(Number),
+      totalSerializedSize: JSON.stringify('Menu in en').length + JSON.stringify('Menu in fr').length,
+      cacheHits: 1,
+      cacheMisses: 2,
+      chunkLoads: 0,
+      totalChunkLoadDurationMs: 0,
+    },
+  });
+  expect(stats[relativePathToCwd].maxDurationMs).toBeLessThanOrEqual(stats[relativePathToCwd].totalDurationMs);
+
+  // The snapshot isn't affected by the later computations
+  runWithSSRCache({}, () => {
+    renderHook(() => useSSRComputation_Server({ compute }, ['de'], {}, relativePathToCwd));
+  });
+  expect(stats[relativePathToCwd].computeCount).toBe(2);
+  expect(getSSRComputationStats()[relativePathToCwd].computeCount).toBe(3);
+});
+
+test('the server results are serialized only once, and only if their size is reported', () => {
+  let serializations = 0;
+  const compute = () => ({
+    get title() {
+      serializations++;
+      return 'Menu';
+    },
+  });
+  const render = (maxPayloadBytes?: number) => runWithSSRCache({}, () => {
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], { maxPayloadBytes }, relativePathToCwd));
+  });
+
+  render();
+  expect(serializations).toBe(0);
+  expect(getSSRComputationStats()[relativePathToCwd].totalSerializedSize).toBe(0);
+
+  const onComputeEnd = jest.fn();
+  setInstrumentation({ onComputeEnd });
+  render(10_000);
+  expect(serializations).toBe(1);
+  expect(onComputeEnd).toHaveBeenCalledWith(expect.objectContaining({ serializedSize: JSON.stringify({ title: 'Menu' }).length }));
+});
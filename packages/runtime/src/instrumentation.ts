@@ -0,0 +1,157 @@
+import { isPromise, NoResult } from "./utils";
+
+export type SSRComputationEvent = {
+  side: 'server' | 'client';
+  // The path of the computation file relative to the cwd of the build
+  relativePathToCwd: string;
+  cacheKey: string;
+};
+
+export type SSRComputationComputeEndEvent = SSRComputationEvent & {
+  durationMs: number;
+  // The size of the result in the serialized cache (in bytes). It's measured on the server side only,
+  // because only the server results are embedded in the HTML.
+  serializedSize?: number;
+  // Set if the computation failed
+  error?: unknown;
+};
+
+export type SSRComputationChunkLoadEvent = {
+  relativePathToCwd: string;
+  durationMs: number;
+  error?: unknown;
+};
+
+export type SSRComputationInstrumentation = {
+  onComputeStart?: (event: SSRComputationEvent) => void;
+  onComputeEnd?: (event: SSRComputationComputeEndEvent) => void;
+  // The result is reused without computing it (read from the SSR cache, the server cache or computed earlier in the same render)
+  onCacheHit?: (event: SSRComputationEvent) => void;
+  onCacheMiss?: (event: SSRComputationEvent) => void;
+  onChunkLoad?: (event: SSRComputationChunkLoadEvent) => void;
+  // The results are serialized to measure their sizes only if `onComputeEnd` is set or this option is enabled,
+  // e.g. to collect `totalSerializedSize` by `getSSRComputationStats` without `onComputeEnd`
+  measureSerializedSize?: boolean;
+};
+
+export type SSRComputationModuleStats = {
+  computeCount: number;
+  errorCount: number;
+  totalDurationMs: number;
+  maxDurationMs: number;
+  totalSerializedSize: number;
+  cacheHits: number;
+  cacheMisses: number;
+  chunkLoads: number;
+  totalChunkLoadDurationMs: number;
+};
+
+let instrumentation: SSRComputationInstrumentation = {};
+let stats = new Map<string, SSRComputationModuleStats>();
+
+export const setInstrumentation = (newInstrumentation: SSRComputationInstrumentation) => {
+  instrumentation = { ...newInstrumentation };
+}
+
+// Returns a snapshot of the stats of every computation file, keyed by its path relative to the cwd of the build
+export const getSSRComputationStats = (): Record<string, SSRComputationModuleStats> => {
+  const statsSnapshot = {};
+  stats.forEach((moduleStats, relativePathToCwd) => {
+    statsSnapshot[relativePathToCwd] = { ...moduleStats };
+  });
+  return statsSnapshot;
+}
+
+export const resetSSRComputationStats = () => {
+  stats = new Map();
+}
+
+const getModuleStats = (relativePathToCwd: string) => {
+  let moduleStats = stats.get(relativePathToCwd);
+  if (!moduleStats) {
+    moduleStats = {
+      computeCount: 0,
+      errorCount: 0,
+      totalDurationMs: 0,
+      maxDurationMs: 0,
+      totalSerializedSize: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      chunkLoads: 0,
+      totalChunkLoadDurationMs: 0,
+    };
+    stats.set(relativePathToCwd, moduleStats);
+  }
+  return moduleStats;
+}
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+export const recordCacheHit = (event: SSRComputationEvent) => {
+  getModuleStats(event.relativePathToCwd).cacheHits++;
+  instrumentation.onCacheHit?.(event);
+}
+
+export const recordCacheMiss = (event: SSRComputationEvent) => {
+  getModuleStats(event.relativePathToCwd).cacheMisses++;
+  instrumentation.onCacheMiss?.(event);
+}
+
+// Calls the "compute" function and reports its duration. The duration of async computations includes awaiting them.
+// The server passes `measureSize` to report the serialized size of the result (see `createSerializedSizeMeter`).
+export const instrumentCompute = <T>(event: SSRComputationEvent, compute: () => T, measureSize?: (value: unknown) => number | undefined): T => {
+  instrumentation.onComputeStart?.(event);
+  const startTime = now();
+  const end = (result: unknown, error?: unknown) => {
+    const durationMs = now() - startTime;
+    const shouldMeasureSize = measureSize && error === undefined && result !== NoResult
+      && (instrumentation.onComputeEnd || instrumentation.measureSerializedSize);
+    const serializedSize = shouldMeasureSize ? measureSize(result) : undefined;
+    const moduleStats = getModuleStats(event.relativePathToCwd);
+    moduleStats.computeCount++;
+    moduleStats.totalDurationMs += durationMs;
+    moduleStats.maxDurationMs = Math.max(moduleStats.maxDurationMs, durationMs);
+    moduleStats.totalSerializedSize += serializedSize ?? 0;
+    if (error !== undefined) moduleStats.errorCount++;
+    instrumentation.onComputeEnd?.({ ...event, durationMs, serializedSize, ...(error !== undefined && { error }) });
+  };
+
+  let result: T;
+  try {
+    result = compute();
+  } catch (error) {
+    end(undefined, error);
+    throw error;
+  }
+  if (isPromise(result)) {
+    return result.then((value) => {
+      end(value);
+      return value;
+    }, (error) => {
+      end(undefined, error);
+      throw error;
+    }) as T;
+  }
+  end(result);
+  return result;
+}
+
+// Reports the duration of downloading the computation file
+export const instrumentChunkLoad = <T>(relativePathToCwd: string, load: () => Promise<T>): Promise<T> => {
+  const startTime = now();
+  const end = (error?: unknown) => {
+    const durationMs = now() - startTime;
+    const moduleStats = getModuleStats(relativePathToCwd);
+    moduleStats.chunkLoads++;
+    moduleStats.totalChunkLoadDurationMs += durationMs;
+    instrumentation.onChunkLoad?.({ relativePathToCwd, durationMs, ...(error !== undefined && { error }) });
+  };
+
+  return load().then((module) => {
+    end();
+    return module;
+  }, (error) => {
+    end(error);
+    throw error;
+  });
+}
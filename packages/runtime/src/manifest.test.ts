@@ -0,0 +1,41 @@
+import { checkSSRCacheAgainstManifest, SSRComputationsManifest } from "./manifest";
+import { setSSRCache } from "./ssrCache";
+import { calculateCacheKey } from "./utils";
+
+const manifest: SSRComputationsManifest = {
+  'app/menu.ssr-computation': {
+    file: 'app/menu.ssr-computation.ts',
+    chunkNames: ['default-ssr-computations'],
+    callers: { 'app/Menu.tsx': { chunkName: 'default-ssr-computations', options: [] } },
+    hasSubscribe: false,
+    contentHash: 'a1b2c3d4e5',
+    version: 'a1b2c3d4e5',
+  },
+};
+
+const menuCacheKey = calculateCacheKey('app/menu.ssr-computation', ['en']);
+const cartCacheKey = calculateCacheKey('app/cart.ssr-computation', [1]);
+
+test('the cache entries of the computations in the manifest with the same version are valid', () => {
+  const cache = { [menuCacheKey]: { result: 'Menu', isSubscription: false, version: 'a1b2c3d4e5' } };
+  expect(checkSSRCacheAgainstManifest(manifest, cache)).toEqual([]);
+});
+
+test('the unknown computations and the other versions are reported', () => {
+  const cache = {
+    [menuCacheKey]: { result: 'Menu', isSubscription: false, version: 'f6e5d4c3b2' },
+    [cartCacheKey]: { result: 'Cart', isSubscription: false, version: '1234567890' },
+  };
+
+  expect(checkSSRCacheAgainstManifest(manifest, cache)).toEqual([
+    { cacheKey: menuCacheKey, relativePathToCwd: 'app/menu.ssr-computation', reason: 'version-mismatch', version: 'f6e5d4c3b2', expectedVersion: 'a1b2c3d4e5' },
+    { cacheKey: cartCacheKey, relativePathToCwd: 'app/cart.ssr-computation', reason: 'unknown-computation', version: '1234567890' },
+  ]);
+});
+
+test('the global cache is checked by default', () => {
+  setSSRCache({ [menuCacheKey]: { result: 'Menu', isSubscription: false } });
+  expect(checkSSRCacheAgainstManifest(manifest)).toEqual([
+    { cacheKey: menuCacheKey, relativePathToCwd: 'app/menu.ssr-computation', reason: 'version-mismatch', version: undefined, expectedVersion: 'a1b2c3d4e5' },
+  ]);
+});
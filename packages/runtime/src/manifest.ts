@@ -0,0 +1,55 @@
+import { getSSRCache, SSRCache } from "./ssrCache";
+
+// The calls of a computation in a single file
+export type SSRComputationsManifestCaller = {
+  // The chunk of the computation file, or null if it isn't downloaded by the client (remote and worker computations)
+  chunkName: string | null;
+  // The names of the options passed by the calls
+  options: string[];
+};
+
+export type SSRComputationsManifestEntry = {
+  // The path of the computation file relative to the cwd of the build, with its extension
+  file: string;
+  chunkNames: string[];
+  // The calling files, keyed by their paths relative to the cwd of the build
+  callers: Record<string, SSRComputationsManifestCaller>;
+  hasSubscribe: boolean;
+  contentHash: string;
+  // The version passed to the runtime: the content hash prefixed by the build id, if provided
+  version: string;
+};
+
+// Written by the macro with the "manifest" option, keyed by the paths of the computation files relative to the cwd of the build
+export type SSRComputationsManifest = Record<string, SSRComputationsManifestEntry>;
+
+export type SSRCacheManifestMismatch = {
+  cacheKey: string;
+  relativePathToCwd: string;
+  // "unknown-computation": the manifest doesn't have the computation, e.g. the client and the server are built from different code
+  // "version-mismatch": the result is computed by another version of the computation, so the client treats it as a cache miss
+  reason: 'unknown-computation' | 'version-mismatch';
+  version: string | undefined;
+  expectedVersion?: string;
+};
+
+const findRelativePathToCwd = (manifest: SSRComputationsManifest, cacheKey: string) => {
+  const relativePathToCwd = Object.keys(manifest).find((path) => cacheKey.startsWith(`${path}::`));
+  return relativePathToCwd ?? cacheKey.slice(0, cacheKey.indexOf('::'));
+}
+
+// Checks the hydrated cache against the manifest of the client build, e.g. to report the deploys that serve the HTML
+// rendered by another build. Returns the cache entries that the client can't use.
+export const checkSSRCacheAgainstManifest = (manifest: SSRComputationsManifest, cache: SSRCache = getSSRCache()): SSRCacheManifestMismatch[] => {
+  const mismatches: SSRCacheManifestMismatch[] = [];
+  Object.entries(cache).forEach(([cacheKey, cacheItem]) => {
+    const relativePathToCwd = findRelativePathToCwd(manifest, cacheKey);
+    const manifestEntry = manifest[relativePathToCwd];
+    if (!manifestEntry) {
+      mismatches.push({ cacheKey, relativePathToCwd, reason: 'unknown-computation', version: cacheItem.version });
+    } else if (cacheItem.version !== manifestEntry.version) {
+      mismatches.push({ cacheKey, relativePathToCwd, reason: 'version-mismatch', version: cacheItem.version, expectedVersion: manifestEntry.version });
+    }
+  });
+  return mismatches;
+}
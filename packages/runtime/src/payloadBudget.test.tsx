@@ -0,0 +1,64 @@
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Server from "./useSSRComputation_Server";
+import { configurePayloadBudget } from "./payloadBudget";
+import { runWithSSRCache, SSRCache } from "./ssrCache";
+import { setErrorHandler, UseSSRComputationError } from "./errorHandler";
+import { calculateCacheKey, Options } from "./utils";
+
+const relativePathToCwd = 'app/menu.ssr-computation';
+const cacheKey = calculateCacheKey(relativePathToCwd, ['en']);
+const largeMenu = { items: Array.from({ length: 100 }, (_, index) => `Item ${index}`) };
+
+const renderWithCache = (options: Options) => {
+  const cache: SSRCache = {};
+  const result = runWithSSRCache(cache, () => {
+    return renderHook(() => useSSRComputation_Server({ compute: () => largeMenu }, ['en'], options, relativePathToCwd)).result.current;
+  });
+  return { cache, result };
+}
+
+let errors: UseSSRComputationError[];
+beforeEach(() => {
+  configurePayloadBudget({});
+  errors = [];
+  setErrorHandler((error) => {
+    errors.push(error);
+  });
+});
+
+test('the results are cached without a budget', () => {
+  const { cache } = renderWithCache({});
+  expect(cache[cacheKey]?.result).toEqual(largeMenu);
+  expect(errors).toEqual([]);
+});
+
+test('the results that exceed the "maxPayloadBytes" option are reported and kept in the cache', () => {
+  const { cache, result } = renderWithCache({ maxPayloadBytes: 100 });
+
+  expect(result).toEqual(largeMenu);
+  expect(cache[cacheKey]?.result).toEqual(largeMenu);
+  expect(errors).toHaveLength(1);
+  expect(errors[0].message).toMatch(/^useSSRComputation: the cached result is \d+ bytes, which exceeds the payload budget of 100 bytes$/);
+  expect(errors[0].ssrComputationFile).toBe(relativePathToCwd);
+  expect(errors[0].dependencies).toEqual(['en']);
+});
+
+test('the oversized results are dropped from the cache if "dropOversizedEntries" is enabled', () => {
+  configurePayloadBudget({ maxPayloadBytes: 100, dropOversizedEntries: true });
+  const { cache, result } = renderWithCache({});
+
+  // The server renders the loading state like the client, which computes the result instead of hydrating it
+  expect(result).toBeNull();
+  expect(cache).toEqual({});
+  expect(errors[0].message).toMatch(/It is dropped from the cache, so the client computes it instead\.$/);
+
+  expect(renderWithCache({ placeholder: { items: [] } }).result).toEqual({ items: [] });
+});
+
+test('the "maxPayloadBytes" option overrides the global budget', () => {
+  configurePayloadBudget({ maxPayloadBytes: 100 });
+  const { cache } = renderWithCache({ maxPayloadBytes: 10_000 });
+
+  expect(cache[cacheKey]?.result).toEqual(largeMenu);
+  expect(errors).toEqual([]);
+});
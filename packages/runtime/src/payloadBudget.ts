@@ -0,0 +1,44 @@
+import { SSRCacheItem } from "./ssrCache";
+import { Dependency } from "./utils";
+import { handleError, UseSSRComputationError } from "./errorHandler";
+import { createSerializedSizeMeter } from "./serialization";
+
+export type PayloadBudgetPolicy = {
+  // The maximum size of each cache entry embedded in the HTML (in bytes). It's overridden by the "maxPayloadBytes" option.
+  maxPayloadBytes: number;
+  // Drops the oversized entries from the cache, so the client computes them instead of hydrating them
+  dropOversizedEntries: boolean;
+};
+
+const defaultPayloadBudgetPolicy: PayloadBudgetPolicy = {
+  maxPayloadBytes: Infinity,
+  dropOversizedEntries: false,
+};
+let payloadBudgetPolicy = defaultPayloadBudgetPolicy;
+
+export const configurePayloadBudget = (policy: Partial<PayloadBudgetPolicy>) => {
+  payloadBudgetPolicy = { ...defaultPayloadBudgetPolicy, ...policy };
+}
+
+// Called by the server hook before the entry is written to the cache. The oversized entries are reported to the error handler.
+// The size of the result is measured by `measureSize`, which is shared with the instrumentation of the computation.
+// Returns false if the entry must be dropped.
+export const checkPayloadBudget = (
+  cacheItem: SSRCacheItem<unknown>,
+  maxPayloadBytes: number | undefined,
+  dependencies: Dependency[],
+  relativePathToCwd: string,
+  measureSize = createSerializedSizeMeter(),
+): boolean => {
+  const budget = maxPayloadBytes ?? payloadBudgetPolicy.maxPayloadBytes;
+  if (budget === Infinity) return true;
+
+  const size = measureSize(cacheItem.result);
+  if (size === undefined || size <= budget) return true;
+
+  const { dropOversizedEntries } = payloadBudgetPolicy;
+  const message = `useSSRComputation: the cached result is ${size} bytes, which exceeds the payload budget of ${budget} bytes`
+    + (dropOversizedEntries ? '. It is dropped from the cache, so the client computes it instead.' : '');
+  handleError(new UseSSRComputationError(message, dependencies, relativePathToCwd, undefined, cacheItem.result));
+  return !dropOversizedEntries;
+}
@@ -0,0 +1,135 @@
+import { createServer, IncomingMessage, request, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { PassThrough } from "stream";
+import { configureRemoteComputations, importRemoteSSRComputation } from "./remoteComputation";
+import { createSSRComputationHandler } from "./createSSRComputationHandler";
+import { setErrorHandler } from "./errorHandler";
+import { NoResult, SSRComputationModule } from "./utils";
+
+const modules: Record<string, SSRComputationModule<unknown>> = {
+  'app/date.ssr-computation': { compute: (timestamp) => new Date(Number(timestamp)) },
+  'app/async.ssr-computation': { compute: async (name) => ({ greeting: `Hello ${name}`, missing: undefined }) },
+  'app/noResult.ssr-computation': { compute: () => NoResult },
+  'app/failing.ssr-computation': {
+    compute: () => {
+      throw new Error('secret details');
+    },
+  },
+};
+
+let server: Server;
+let endpoint: string;
+const errorHandler = jest.fn();
+
+beforeAll(async () => {
+  server = createServer(createSSRComputationHandler({ modules }));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ssr-computations`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  configureRemoteComputations({ endpoint });
+  errorHandler.mockClear();
+  setErrorHandler(errorHandler);
+});
+
+const computeRemotely = async (relativePathToCwd: string, ...dependencies: any[]) => {
+  const remoteModule = await importRemoteSSRComputation(relativePathToCwd);
+  return remoteModule.compute(...dependencies);
+}
+
+test('the remote computations are computed by the handler and keep the types of the results', async () => {
+  await expect(computeRemotely('app/date.ssr-computation', 0)).resolves.toEqual(new Date(0));
+  await expect(computeRemotely('app/async.ssr-computation', 'world')).resolves.toEqual({ greeting: 'Hello world', missing: undefined });
+  await expect(computeRemotely('app/noResult.ssr-computation')).resolves.toBe(NoResult);
+});
+
+test('the handler rejects the computations that are not registered', async () => {
+  await expect(computeRemotely('app/unknown.ssr-computation')).rejects.toThrow('failed with status 404: The computation "app/unknown.ssr-computation" is not registered in the handler');
+});
+
+test('the handler passes the errors to the error handler and hides them from the client', async () => {
+  await expect(computeRemotely('app/failing.ssr-computation', 1)).rejects.toThrow('failed with status 500: The computation failed');
+  expect(errorHandler).toHaveBeenCalledTimes(1);
+  expect(errorHandler.mock.calls[0][0]).toMatchObject({ ssrComputationFile: 'app/failing.ssr-computation', dependencies: [1] });
+});
+
+test('the handler accepts only POST requests with valid dependencies', async () => {
+  const getResponse = await fetch(endpoint);
+  expect(getResponse.status).toBe(405);
+
+  const invalidResponse = await fetch(endpoint, {
+    method: 'POST',
+    body: JSON.stringify({ path: 'app/date.ssr-computation', dependencies: [{ fn: { __ssrType: 'Date', value: null } }] }),
+  });
+  expect(invalidResponse.status).toBe(400);
+});
+
+test('configureRemoteComputations sets the headers and the fetch function', async () => {
+  const fetchFn = jest.fn((url: RequestInfo | URL, init?: RequestInit) => fetch(url, init));
+  configureRemoteComputations({ endpoint, headers: { 'X-CSRF-Token': 'token' }, fetch: fetchFn as typeof fetch });
+
+  await computeRemotely('app/date.ssr-computation', 0);
+
+  expect(fetchFn).toHaveBeenCalledWith(endpoint, expect.objectContaining({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': 'token' },
+  }));
+});
+
+test('the handler rejects the request bodies larger than "maxBodyBytes"', async () => {
+  const limitedServer = createServer(createSSRComputationHandler({ modules, maxBodyBytes: 16 }));
+  await new Promise<void>((resolve) => limitedServer.listen(0, '127.0.0.1', resolve));
+  const { port } = limitedServer.address() as AddressInfo;
+
+  // The body is sent in chunks without the Content-Length header, so it's rejected while it's read
+  const statusCode = await new Promise<number | undefined>((resolve, reject) => {
+    const limitedRequest = request({ host: '127.0.0.1', port, method: 'POST' }, (response) => {
+      response.resume();
+      resolve(response.statusCode);
+    });
+    limitedRequest.on('error', reject);
+    limitedRequest.write(JSON.stringify({ path: 'app/date.ssr-computation', dependencies: [0] }));
+    limitedRequest.end();
+  });
+  expect(statusCode).toBe(413);
+
+  // The Content-Length header is checked before the body is read
+  const response = await fetch(`http://127.0.0.1:${port}`, { method: 'POST', body: 'x'.repeat(17) });
+  expect(response.status).toBe(413);
+  await new Promise((resolve) => limitedServer.close(resolve));
+});
+
+test("the handler responds with the 400 status if the request body can't be read", async () => {
+  const handler = createSSRComputationHandler({ modules });
+  const req = Object.assign(new PassThrough(), { method: 'POST', headers: {} }) as unknown as IncomingMessage;
+  const res = { statusCode: 200, headersSent: false, setHeader: jest.fn(), end: jest.fn() } as unknown as ServerResponse;
+
+  const handled = handler(req, res);
+  (req as unknown as PassThrough).destroy(new Error('aborted'));
+
+  await expect(handled).resolves.toBeUndefined();
+  expect(res.statusCode).toBe(400);
+});
+
+test('the handler passes the unexpected errors to the error handler and responds with the 500 status', async () => {
+  const handler = createSSRComputationHandler({ modules });
+  const req = Object.assign(new PassThrough(), { method: 'GET', url: '/ssr-computations', headers: {} }) as unknown as IncomingMessage;
+  const setHeader = jest.fn().mockImplementationOnce(() => {
+    throw new Error('invalid header');
+  });
+  const res = { statusCode: 200, headersSent: false, setHeader, end: jest.fn() } as unknown as ServerResponse;
+
+  await expect(handler(req, res)).resolves.toBeUndefined();
+  expect(res.statusCode).toBe(500);
+  expect(errorHandler).toHaveBeenCalledTimes(1);
+  expect(errorHandler.mock.calls[0][0]).toMatchObject({
+    message: 'The request to /ssr-computations failed: Error: invalid header',
+    dependencies: [],
+    ssrComputationFile: '',
+  });
+});
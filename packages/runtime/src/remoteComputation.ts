@@ -0,0 +1,47 @@
+import { ClientComputationFunction, Dependency, NoResult, SSRComputationModule } from "./utils";
+import { decodeValue, encodeValue } from "./serialization";
+
+export type RemoteComputationsConfig = {
+  // The URL of the endpoint served by `createSSRComputationHandler`
+  endpoint: string;
+  // Extra headers of the requests, e.g. a CSRF token
+  headers: Record<string, string>;
+  // Defaults to the global `fetch`
+  fetch?: typeof fetch;
+};
+
+const defaultRemoteComputationsConfig: RemoteComputationsConfig = {
+  endpoint: '/ssr-computations',
+  headers: {},
+};
+let remoteComputationsConfig = defaultRemoteComputationsConfig;
+
+export const configureRemoteComputations = (config: Partial<RemoteComputationsConfig>) => {
+  remoteComputationsConfig = { ...defaultRemoteComputationsConfig, ...config };
+}
+
+// The request and the response bodies are JSON, and the dependencies and the results are encoded like the SSR cache.
+const computeRemotely = async (relativePathToCwd: string, dependencies: Dependency[]) => {
+  const { endpoint, headers, fetch: fetchFn = fetch } = remoteComputationsConfig;
+  const response = await fetchFn(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ path: relativePathToCwd, dependencies: encodeValue(dependencies) }),
+  });
+
+  const responseBody = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const reason = responseBody.error ? `: ${responseBody.error}` : '';
+    throw new Error(`useSSRComputation: the remote computation "${relativePathToCwd}" failed with status ${response.status}${reason}`);
+  }
+  return responseBody.noResult ? NoResult : decodeValue(responseBody.result);
+}
+
+// Used instead of the dynamic import of the computation file by the computations with the "remote" option,
+// so the computation file and its dependencies aren't downloaded by the client.
+export const importRemoteSSRComputation = <TResult>(relativePathToCwd: string): ReturnType<ClientComputationFunction<TResult>> => {
+  const remoteModule = {
+    compute: (...dependencies: Dependency[]) => computeRemotely(relativePathToCwd, dependencies),
+  };
+  return Promise.resolve(remoteModule as SSRComputationModule<TResult>);
+}
@@ -0,0 +1,117 @@
+import {
+  createSSRCacheScriptFlusher,
+  deserializeSSRCache,
+  hydrateSSRCache,
+  renderSSRCacheScript,
+  serializeSSRCache,
+} from "./serialization";
+import { getSSRCache, SSRCache } from "./ssrCache";
+
+const cacheItem = (result: unknown) => ({ result, isSubscription: false });
+
+// Evaluates the rendered script like the browser does, but on a fake window
+const runScript = (script: string, window: Record<string, any> = {}) => {
+  const match = script.match(/^<script[^>]*>([\s\S]*)<\/script>$/);
+  if (!match) throw new Error(`Invalid script: ${script}`);
+  new Function('window', match[1])(window);
+  return window;
+}
+
+test('serializeSSRCache round-trips the values that JSON does not support', () => {
+  const cache: SSRCache = {
+    date: cacheItem(new Date('2023-10-02T00:00:00.000Z')),
+    map: cacheItem(new Map<unknown, unknown>([['a', 1], [2, new Set([3])]])),
+    set: cacheItem(new Set(['x', 'y'])),
+    bigint: cacheItem(BigInt('12345678901234567890')),
+    undefined: cacheItem(undefined),
+    numbers: cacheItem([NaN, Infinity, -Infinity, -0, 1.5]),
+    nested: cacheItem({ list: [undefined, { __ssrType: 'Date', value: 'not a date' }] }),
+  };
+
+  const deserializedCache = deserializeSSRCache(serializeSSRCache(cache));
+
+  expect(deserializedCache).toEqual(cache);
+  expect('undefined' in deserializedCache).toBe(true);
+  expect(Object.is((deserializedCache.numbers.result as number[])[3], -0)).toBe(true);
+});
+
+test('serializeSSRCache throws on functions', () => {
+  expect(() => serializeSSRCache({ fn: cacheItem(() => 1) })).toThrow("can't be serialized");
+});
+
+test('renderSSRCacheScript escapes the payload against closing the script tag', () => {
+  const maliciousResult = '</script><script>alert(1)</script>\u2028\u2029&';
+  const script = renderSSRCacheScript({ cache: { key: cacheItem(maliciousResult) } });
+
+  expect(script.match(/<\/script>/g)).toHaveLength(1);
+  expect(script).not.toMatch(/[\u2028\u2029]/);
+  expect(deserializeSSRCache(runScript(script)['__SSR_COMPUTATION_CACHE'])).toEqual({ key: cacheItem(maliciousResult) });
+});
+
+test('renderSSRCacheScript adds the nonce and uses the global name', () => {
+  const script = renderSSRCacheScript({ cache: { key: cacheItem(1) }, nonce: 'abc"123', globalName: '__CUSTOM_CACHE' });
+
+  expect(script.startsWith('<script nonce="abc&quot;123">')).toBe(true);
+  expect(runScript(script)).toEqual({ __CUSTOM_CACHE: { key: cacheItem(1) } });
+});
+
+test('hydrateSSRCache restores the cache from the global variable and sets it', () => {
+  const cache: SSRCache = { key: cacheItem(new Date(0)) };
+  globalThis['__CUSTOM_CACHE'] = runScript(renderSSRCacheScript({ cache, globalName: '__CUSTOM_CACHE' }))['__CUSTOM_CACHE'];
+
+  const hydratedCache = hydrateSSRCache({ globalName: '__CUSTOM_CACHE' });
+
+  expect(hydratedCache).toEqual(cache);
+  expect(getSSRCache()).toBe(hydratedCache);
+  delete globalThis['__CUSTOM_CACHE'];
+});
+
+test('createSSRCacheScriptFlusher renders only the entries added or updated since the previous flush', () => {
+  const cache: SSRCache = { first: cacheItem(1) };
+  const flushSSRCacheScript = createSSRCacheScriptFlusher({ cache, nonce: 'abc' });
+  const window = {};
+
+  const firstScript = flushSSRCacheScript();
+  expect(firstScript.startsWith('<script nonce="abc">')).toBe(true);
+  runScript(firstScript, window);
+  expect(flushSSRCacheScript()).toBe('');
+
+  cache.first = cacheItem(2);
+  cache.second = cacheItem(new Date(0));
+  runScript(flushSSRCacheScript(), window);
+
+  expect(window['__SSR_COMPUTATION_CACHE']).toHaveLength(2);
+  expect(window['__SSR_COMPUTATION_CACHE'].map(deserializeSSRCache)).toEqual([
+    { first: cacheItem(1) },
+    { first: cacheItem(2), second: cacheItem(new Date(0)) },
+  ]);
+});
+
+test('hydrateSSRCache merges the streamed chunks, including the ones pushed after the hydration', () => {
+  const cache: SSRCache = { first: cacheItem(1) };
+  const flushSSRCacheScript = createSSRCacheScriptFlusher({ cache, globalName: '__STREAMED_CACHE' });
+  runScript(flushSSRCacheScript(), globalThis);
+
+  const hydratedCache = hydrateSSRCache({ globalName: '__STREAMED_CACHE' });
+  expect(hydratedCache).toEqual({ first: cacheItem(1) });
+
+  cache.second = cacheItem(new Set([2]));
+  runScript(flushSSRCacheScript(), globalThis);
+  expect(hydratedCache).toEqual({ first: cacheItem(1), second: cacheItem(new Set([2])) });
+  delete globalThis['__STREAMED_CACHE'];
+});
+
+test('hydrateSSRCache receives the streamed chunks pushed after the hydration, even if none were pushed before it', () => {
+  const cache: SSRCache = {};
+  const flushSSRCacheScript = createSSRCacheScriptFlusher({ cache, globalName: '__EMPTY_STREAMED_CACHE' });
+  expect(flushSSRCacheScript()).toBe('');
+
+  const hydratedCache = hydrateSSRCache({ globalName: '__EMPTY_STREAMED_CACHE' });
+  expect(hydratedCache).toEqual({});
+  expect(getSSRCache()).toBe(hydratedCache);
+
+  cache.first = cacheItem(1);
+  runScript(flushSSRCacheScript(), globalThis);
+  expect(hydratedCache).toEqual({ first: cacheItem(1) });
+  delete globalThis['__EMPTY_STREAMED_CACHE'];
+});
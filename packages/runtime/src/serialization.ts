@@ -0,0 +1,215 @@
+import { getSSRCache, setSSRCache, SSRCache, SSRCacheItem } from "./ssrCache";
+import { notifyCacheItemListeners } from "./computationStore";
+
+export const DEFAULT_SSR_CACHE_GLOBAL_NAME = '__SSR_COMPUTATION_CACHE';
+
+// Values that JSON can't represent are encoded as `{ [TYPE_KEY]: type, value }` objects.
+// Plain objects that have the `TYPE_KEY` property themselves are encoded as "Object" to keep them unambiguous.
+const TYPE_KEY = '__ssrType';
+
+type EncodedValue = null | boolean | number | string | EncodedValue[] | { [key: string]: EncodedValue };
+
+const encodeObject = (object: object): { [key: string]: EncodedValue } => {
+  const encodedObject = {};
+  Object.entries(object).forEach(([key, value]) => {
+    encodedObject[key] = encodeValue(value);
+  });
+  return encodedObject;
+}
+
+export const encodeValue = (value: unknown): EncodedValue => {
+  if (value === undefined) return { [TYPE_KEY]: 'undefined' };
+  if (typeof value === 'bigint') return { [TYPE_KEY]: 'BigInt', value: value.toString() };
+  if (typeof value === 'number' && (!Number.isFinite(value) || Object.is(value, -0))) {
+    return { [TYPE_KEY]: 'Number', value: Object.is(value, -0) ? '-0' : String(value) };
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    throw new Error(`useSSRComputation: the result of type "${typeof value}" can't be serialized`);
+  }
+  if (value === null || typeof value !== 'object') return value as EncodedValue;
+
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value instanceof Date) {
+    return { [TYPE_KEY]: 'Date', value: isNaN(value.getTime()) ? null : value.toISOString() };
+  }
+  if (value instanceof Map) {
+    return { [TYPE_KEY]: 'Map', value: Array.from(value.entries()).map(([key, entryValue]) => [encodeValue(key), encodeValue(entryValue)]) };
+  }
+  if (value instanceof Set) return { [TYPE_KEY]: 'Set', value: Array.from(value.values()).map(encodeValue) };
+  if (TYPE_KEY in value) return { [TYPE_KEY]: 'Object', value: encodeObject(value) };
+  return encodeObject(value);
+}
+
+const decodeObject = (object: object) => {
+  const decodedObject = {};
+  Object.entries(object).forEach(([key, value]) => {
+    decodedObject[key] = decodeValue(value);
+  });
+  return decodedObject;
+}
+
+export const decodeValue = (value: any): unknown => {
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (!(TYPE_KEY in value)) return decodeObject(value);
+
+  switch (value[TYPE_KEY]) {
+    case 'undefined':
+      return undefined;
+    case 'BigInt':
+      return BigInt(value.value);
+    case 'Number':
+      return Number(value.value);
+    case 'Date':
+      return new Date(value.value ?? NaN);
+    case 'Map':
+      return new Map(value.value.map(([key, entryValue]) => [decodeValue(key), decodeValue(entryValue)]));
+    case 'Set':
+      return new Set(value.value.map(decodeValue));
+    case 'Object':
+      return decodeObject(value.value);
+    default:
+      throw new Error(`useSSRComputation: unknown serialized type "${value[TYPE_KEY]}"`);
+  }
+}
+
+// Escapes the characters that can close the script tag or break the JS parsing (U+2028 and U+2029 in old engines).
+// The escaped JSON is still a valid JSON and JS expression, because these characters can only appear in strings.
+const escapeJSON = (json: string) => {
+  return json
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+const escapeHTMLAttribute = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Returns the size of the value embedded in the HTML (in bytes)
+export const measureSerializedSize = (value: unknown) => {
+  return new TextEncoder().encode(escapeJSON(JSON.stringify(encodeValue(value)))).length;
+}
+
+// Returns a function that measures the size of a value once, so the instrumentation and the payload budget
+// don't serialize the same result twice. It returns undefined for the values that can't be serialized,
+// because they're reported when the cache is serialized.
+export const createSerializedSizeMeter = () => {
+  let measurement: { value: unknown, size: number | undefined } | undefined;
+  return (value: unknown) => {
+    if (!measurement || measurement.value !== value) {
+      let size: number | undefined;
+      try {
+        size = measureSerializedSize(value);
+      } catch {
+        size = undefined;
+      }
+      measurement = { value, size };
+    }
+    return measurement.size;
+  };
+}
+
+// Serializes the cache to a JSON string that can be safely embedded in a script tag.
+export const serializeSSRCache = (cache: SSRCache = getSSRCache()): string => {
+  return escapeJSON(JSON.stringify(encodeValue(cache)));
+}
+
+export const deserializeSSRCache = (serializedCache: string | object): SSRCache => {
+  const parsedCache = typeof serializedCache === 'string' ? JSON.parse(serializedCache) : serializedCache;
+  return decodeValue(parsedCache) as SSRCache;
+}
+
+type RenderSSRCacheScriptOptions = {
+  cache?: SSRCache;
+  nonce?: string;
+  globalName?: string;
+};
+
+// Returns a script tag that assigns the serialized cache to `window[globalName]`.
+// It must be added to the HTML after rendering the app.
+export const renderSSRCacheScript = ({
+  cache = getSSRCache(),
+  nonce,
+  globalName = DEFAULT_SSR_CACHE_GLOBAL_NAME,
+}: RenderSSRCacheScriptOptions = {}): string => {
+  return renderScript(nonce, `window[${escapeJSON(JSON.stringify(globalName))}]=${serializeSSRCache(cache)};`);
+}
+
+const renderScript = (nonce: string | undefined, script: string) => {
+  const nonceAttribute = nonce ? ` nonce="${escapeHTMLAttribute(nonce)}"` : '';
+  return `<script${nonceAttribute}>${script}</script>`;
+}
+
+// Returns a function that renders a script tag with the cache entries added or updated since its previous call,
+// or an empty string if there are none. It's called while a streaming render (e.g. `renderToPipeableStream`) progresses,
+// so the results are sent along with the HTML that uses them. The script tags push the entries to the `window[globalName]` array.
+export const createSSRCacheScriptFlusher = ({
+  cache = getSSRCache(),
+  nonce,
+  globalName = DEFAULT_SSR_CACHE_GLOBAL_NAME,
+}: RenderSSRCacheScriptOptions = {}): () => string => {
+  const flushedItems = new Map<string, SSRCacheItem<unknown>>();
+
+  return () => {
+    const newEntries: SSRCache = {};
+    Object.entries(cache).forEach(([cacheKey, cacheItem]) => {
+      if (flushedItems.get(cacheKey) === cacheItem) return;
+      flushedItems.set(cacheKey, cacheItem);
+      newEntries[cacheKey] = cacheItem;
+    });
+    if (Object.keys(newEntries).length === 0) return '';
+
+    const escapedGlobalName = escapeJSON(JSON.stringify(globalName));
+    return renderScript(nonce, `(window[${escapedGlobalName}]=window[${escapedGlobalName}]||[]).push(${serializeSSRCache(newEntries)});`);
+  };
+}
+
+// The chunks pushed after the hydration are added to the hydrated cache, and the hooks that use them are rerendered.
+const hydrateStreamedSSRCache = (serializedChunks: unknown[]): SSRCache => {
+  const cache: SSRCache = {};
+  const addChunk = (serializedChunk: unknown) => {
+    const entries = deserializeSSRCache(serializedChunk as object);
+    Object.assign(cache, entries);
+    return Object.keys(entries);
+  };
+
+  serializedChunks.forEach(addChunk);
+  serializedChunks.push = (...newChunks: unknown[]) => {
+    newChunks.forEach((serializedChunk) => {
+      addChunk(serializedChunk).forEach((cacheKey) => notifyCacheItemListeners(cache, cacheKey));
+    });
+    return serializedChunks.length;
+  };
+  return cache;
+}
+
+type HydrateSSRCacheOptions = {
+  globalName?: string;
+};
+
+// Reads the cache embedded by `renderSSRCacheScript` or `createSSRCacheScriptFlusher`, restores the serialized values and passes it to `setSSRCache`.
+// It must be called before rendering the app. The hydrated cache is returned, so it can be passed to `SSRComputationProvider`.
+export const hydrateSSRCache = ({ globalName = DEFAULT_SSR_CACHE_GLOBAL_NAME }: HydrateSSRCacheOptions = {}): SSRCache => {
+  const globalObject = globalThis as Record<string, any>;
+  const serializedCache = globalObject[globalName];
+  let cache: SSRCache;
+  if (!serializedCache) {
+    // A streaming render may not have flushed any results yet, so the array that receives its chunks is installed
+    const serializedChunks: unknown[] = [];
+    globalObject[globalName] = serializedChunks;
+    cache = hydrateStreamedSSRCache(serializedChunks);
+  } else if (Array.isArray(serializedCache)) {
+    cache = hydrateStreamedSSRCache(serializedCache);
+  } else {
+    cache = deserializeSSRCache(serializedCache);
+  }
+  setSSRCache(cache);
+  return cache;
+}
@@ -0,0 +1,88 @@
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Server from "./useSSRComputation_Server";
+import { clearServerCache, configureServerCache, getServerCacheItem, setServerCacheItem } from "./serverCache";
+import { runWithSSRCache, setSSRCache } from "./ssrCache";
+import { collectSSRComputations } from "./collectSSRComputations";
+import { setErrorHandler } from "./errorHandler";
+import { SSRComputationModule } from "./utils";
+
+const relativePathToCwd = 'app/menu.ssr-computation';
+
+// Every render runs with its own cache, like the renders of different requests
+const renderInRequest = <TResult,>(hook: () => TResult) => runWithSSRCache({}, () => renderHook(hook).result.current);
+
+beforeEach(() => {
+  clearServerCache();
+  configureServerCache({});
+  setErrorHandler((error) => {
+    throw error;
+  });
+});
+
+test('the results of the computations that export "serverCache" are reused between the requests', () => {
+  const compute = jest.fn((locale) => `Menu in ${locale}`);
+  const computationModule: SSRComputationModule<string> = { compute, serverCache: { ttlMs: 1000 } };
+
+  expect(renderInRequest(() => useSSRComputation_Server(computationModule, ['en'], {}, relativePathToCwd))).toBe('Menu in en');
+  expect(renderInRequest(() => useSSRComputation_Server(computationModule, ['en'], {}, relativePathToCwd))).toBe('Menu in en');
+  expect(renderInRequest(() => useSSRComputation_Server(computationModule, ['fr'], {}, relativePathToCwd))).toBe('Menu in fr');
+
+  expect(compute).toHaveBeenCalledTimes(2);
+});
+
+test('the "serverCacheTtlMs" option enables the server cache and the expired results are recomputed', () => {
+  jest.useFakeTimers();
+  const compute = jest.fn((locale) => `Menu in ${locale}`);
+  const render = () => renderInRequest(() => useSSRComputation_Server({ compute }, ['en'], { serverCacheTtlMs: 1000 }, relativePathToCwd));
+
+  render();
+  jest.advanceTimersByTime(500);
+  render();
+  expect(compute).toHaveBeenCalledTimes(1);
+
+  jest.advanceTimersByTime(1000);
+  render();
+  expect(compute).toHaveBeenCalledTimes(2);
+  jest.useRealTimers();
+});
+
+test('the computations without the server cache are computed once per request', () => {
+  const compute = jest.fn((locale) => `Menu in ${locale}`);
+
+  runWithSSRCache({}, () => {
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+  });
+  expect(compute).toHaveBeenCalledTimes(1);
+
+  renderInRequest(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+  expect(compute).toHaveBeenCalledTimes(2);
+});
+
+test('the renders against the global cache compute the results again without the server cache', async () => {
+  const compute = jest.fn((locale) => `Menu in ${locale}`);
+  setSSRCache({});
+
+  renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+  renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+  expect(compute).toHaveBeenCalledTimes(2);
+
+  await collectSSRComputations(() => {
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+    renderHook(() => useSSRComputation_Server({ compute }, ['en'], {}, relativePathToCwd));
+  });
+  expect(compute).toHaveBeenCalledTimes(3);
+});
+
+test('the server cache evicts the least recently used results and ignores the results of other versions', () => {
+  configureServerCache({ maxEntries: 2 });
+
+  setServerCacheItem('a', 'v1', 1, 1000);
+  setServerCacheItem('b', 'v1', 2, 1000);
+  expect(getServerCacheItem('a', 'v1')?.result).toBe(1);
+  setServerCacheItem('c', 'v1', 3, 1000);
+
+  expect(getServerCacheItem('b', 'v1')).toBeUndefined();
+  expect(getServerCacheItem('a', 'v2')).toBeUndefined();
+  expect(getServerCacheItem('c', 'v1')?.result).toBe(3);
+});
@@ -0,0 +1,55 @@
+export type ServerCachePolicy = {
+  // The maximum number of results kept in the memory of the server process, the least recently used ones are evicted first
+  maxEntries: number;
+};
+
+// Exported as `serverCache` by the computation files to reuse their results between the server renders
+export type ServerCacheConfig = {
+  // The time the result is reused for, in milliseconds
+  ttlMs: number;
+};
+
+type ServerCacheItem = {
+  result: unknown;
+  version: string | undefined;
+  expiresAt: number;
+};
+
+const defaultServerCachePolicy: ServerCachePolicy = {
+  maxEntries: 1000,
+};
+let serverCachePolicy = defaultServerCachePolicy;
+// The keys of the map keep the insertion order, so it's used as the LRU list like the SSR cache
+const serverCache = new Map<string, ServerCacheItem>();
+
+const evictLeastRecentlyUsedItems = () => {
+  const cacheKeys = Array.from(serverCache.keys());
+  cacheKeys.slice(0, Math.max(cacheKeys.length - serverCachePolicy.maxEntries, 0)).forEach((cacheKey) => {
+    serverCache.delete(cacheKey);
+  });
+}
+
+export const configureServerCache = (policy: Partial<ServerCachePolicy>) => {
+  serverCachePolicy = { ...defaultServerCachePolicy, ...policy };
+  evictLeastRecentlyUsedItems();
+}
+
+export const clearServerCache = () => {
+  serverCache.clear();
+}
+
+// Returns the result memoized by a previous server render, if it's produced by the same version and it's not expired.
+export const getServerCacheItem = (cacheKey: string, version: string | undefined) => {
+  const cacheItem = serverCache.get(cacheKey);
+  if (!cacheItem) return undefined;
+  serverCache.delete(cacheKey);
+  if (cacheItem.version !== version || cacheItem.expiresAt <= Date.now()) return undefined;
+  serverCache.set(cacheKey, cacheItem);
+  return cacheItem;
+}
+
+export const setServerCacheItem = (cacheKey: string, version: string | undefined, result: unknown, ttlMs: number) => {
+  serverCache.delete(cacheKey);
+  serverCache.set(cacheKey, { result, version, expiresAt: Date.now() + ttlMs });
+  evictLeastRecentlyUsedItems();
+}
@@ -0,0 +1,168 @@
+import React from "react";
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Server from "./useSSRComputation_Server";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import {
+  configureSSRCache,
+  getSSRCache,
+  getValidCacheItem,
+  runWithSSRCache,
+  setCacheItem,
+  setSSRCache,
+  SSRCache,
+  SSRComputationProvider,
+} from "./ssrCache";
+import { calculateCacheKey, SSRComputationModule } from "./utils";
+import { setErrorHandler } from "./errorHandler";
+
+const relativePathToCwd = 'example/example.js';
+
+const computationModule: SSRComputationModule<string> = {
+  compute: (name) => `Hello ${name}`,
+};
+
+const renderWithCache = <TResult,>(cache: SSRCache, hook: () => TResult) => {
+  const wrapper = ({ children }) => <SSRComputationProvider cache={cache}>{children}</SSRComputationProvider>;
+  return renderHook(hook, { wrapper });
+}
+
+beforeEach(() => {
+  setSSRCache({});
+  configureSSRCache({});
+  setErrorHandler((error) => {
+    throw error;
+  });
+});
+
+test('useSSRComputation_Server writes the results into the cache of the closest SSRComputationProvider', () => {
+  const firstCache: SSRCache = {};
+  const secondCache: SSRCache = {};
+
+  renderWithCache(firstCache, () => useSSRComputation_Server(computationModule, ['first'], {}, relativePathToCwd));
+  renderWithCache(secondCache, () => useSSRComputation_Server(computationModule, ['second'], {}, relativePathToCwd));
+
+  expect(Object.keys(firstCache)).toEqual([calculateCacheKey(relativePathToCwd, ['first'])]);
+  expect(Object.keys(secondCache)).toEqual([calculateCacheKey(relativePathToCwd, ['second'])]);
+  expect(getSSRCache()).toEqual({});
+});
+
+test('runWithSSRCache scopes getSSRCache and the server hook to the passed cache', () => {
+  const scopedCache: SSRCache = {};
+
+  const result = runWithSSRCache(scopedCache, () => {
+    expect(getSSRCache()).toBe(scopedCache);
+    return renderHook(() => useSSRComputation_Server(computationModule, ['scoped'], {}, relativePathToCwd)).result.current;
+  });
+
+  expect(result).toBe('Hello scoped');
+  expect(scopedCache[calculateCacheKey(relativePathToCwd, ['scoped'])]?.result).toBe('Hello scoped');
+  expect(getSSRCache()).toEqual({});
+});
+
+test('useSSRComputation_Client reads the results from the cache of the closest SSRComputationProvider', () => {
+  const cacheKey = calculateCacheKey(relativePathToCwd, ['user']);
+  const firstCache: SSRCache = { [cacheKey]: { result: 'first root', isSubscription: false } };
+  const secondCache: SSRCache = { [cacheKey]: { result: 'second root', isSubscription: false } };
+  const importFn = () => Promise.resolve(computationModule);
+
+  const { result: firstResult } = renderWithCache(firstCache, () => useSSRComputation_Client(importFn, ['user'], {}, relativePathToCwd));
+  const { result: secondResult } = renderWithCache(secondCache, () => useSSRComputation_Client(importFn, ['user'], {}, relativePathToCwd));
+
+  expect(firstResult.current).toBe('first root');
+  expect(secondResult.current).toBe('second root');
+});
+
+describe('cache policies', () => {
+  const cacheItem = (result: unknown) => ({ result, isSubscription: false });
+
+  test('setCacheItem evicts the least recently used items when the cache exceeds "maxEntries"', () => {
+    configureSSRCache({ maxEntries: 2 });
+    const cache: SSRCache = {};
+
+    setCacheItem(cache, 'a', cacheItem(1));
+    setCacheItem(cache, 'b', cacheItem(2));
+    // Reading "a" makes "b" the least recently used item
+    expect(getValidCacheItem(cache, 'a', undefined)?.result).toBe(1);
+    setCacheItem(cache, 'c', cacheItem(3));
+
+    expect(Object.keys(cache)).toEqual(['a', 'c']);
+  });
+
+  test('getValidCacheItem treats the items older than "maxAgeMs" as cache misses', () => {
+    configureSSRCache({ maxAgeMs: 1000 });
+    const cache: SSRCache = {
+      fresh: { ...cacheItem(1), createdAt: Date.now() - 500 },
+      expired: { ...cacheItem(2), createdAt: Date.now() - 1500 },
+      unstamped: cacheItem(3),
+    };
+
+    expect(getValidCacheItem(cache, 'fresh', undefined)?.result).toBe(1);
+    expect(getValidCacheItem(cache, 'expired', undefined)).toBeUndefined();
+    expect(getValidCacheItem(cache, 'unstamped', undefined)?.result).toBe(3);
+  });
+
+  test('useSSRComputation_Server stamps the cached results and the client recomputes the expired ones', async () => {
+    const cache: SSRCache = {};
+    renderWithCache(cache, () => useSSRComputation_Server(computationModule, ['server'], {}, relativePathToCwd));
+    const cacheKey = calculateCacheKey(relativePathToCwd, ['server']);
+    expect(cache[cacheKey]?.createdAt).toEqual(expect.any(Number));
+
+    configureSSRCache({ maxAgeMs: 1000 });
+    cache[cacheKey]!.createdAt = Date.now() - 2000;
+    cache[cacheKey]!.result = 'stale';
+    const importFn = () => Promise.resolve(computationModule);
+    const { result, waitForNextUpdate } = renderWithCache(cache, () => useSSRComputation_Client(importFn, ['server'], {}, relativePathToCwd));
+
+    expect(result.current).toBeNull();
+    await waitForNextUpdate();
+    expect(result.current).toBe('Hello server');
+  });
+
+  test('the mounted client hooks recompute the results that expire after the module is loaded', async () => {
+    configureSSRCache({ maxAgeMs: 50 });
+    const compute = jest.fn((name) => `Hello ${name}`);
+    const importFn = () => Promise.resolve<SSRComputationModule<string>>({ compute });
+    const { result, rerender, waitForNextUpdate } = renderHook(({ name }) => useSSRComputation_Client(importFn, [name], {}, relativePathToCwd), {
+      initialProps: { name: 'first' },
+    });
+    await waitForNextUpdate();
+    // The module is loaded, so the result of the new dependencies is computed synchronously
+    rerender({ name: 'second' });
+    expect(result.current).toBe('Hello second');
+    expect(compute).toHaveBeenCalledTimes(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    rerender({ name: 'second' });
+
+    expect(result.current).toBe('Hello second');
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  test('the results of the mounted client hooks are evicted only once the hooks are unmounted', async () => {
+    configureSSRCache({ maxEntries: 1 });
+    const hydratedCacheKey = calculateCacheKey(relativePathToCwd, ['hydrated']);
+    getSSRCache()[hydratedCacheKey] = cacheItem('Hello hydrated');
+    const importFn = () => Promise.resolve(computationModule);
+    const { result, unmount } = renderHook(() => useSSRComputation_Client(importFn, ['hydrated'], {}, relativePathToCwd));
+
+    setCacheItem(getSSRCache(), 'other', cacheItem('Hello other'));
+    expect(Object.keys(getSSRCache())).toEqual([hydratedCacheKey]);
+    await Promise.resolve();
+    expect(result.current).toBe('Hello hydrated');
+
+    unmount();
+    setCacheItem(getSSRCache(), 'another', cacheItem('Hello another'));
+    expect(Object.keys(getSSRCache())).toEqual(['another']);
+  });
+});
+
+test('runWithSSRCache rejects async callbacks, since the scope ends before their first await', async () => {
+  const render = async () => {
+    await Promise.resolve();
+    return renderHook(() => useSSRComputation_Server(computationModule, ['async'], {}, relativePathToCwd)).result.current;
+  };
+
+  expect(() => runWithSSRCache({}, render)).toThrow('runWithSSRCache: the callback returned a Promise');
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(() => runWithSSRCache({}, () => Promise.reject(new Error('render failed')))).toThrow('runWithSSRCache: the callback returned a Promise');
+});
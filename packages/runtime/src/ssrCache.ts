@@ -1,14 +1,137 @@
+import { createContext, createElement, ReactNode, useContext } from "react";
+import { isPromise } from "./utils";
+import { hasCacheItemListeners, invalidateCacheKeys, notifyCacheItemListeners } from "./computationStore";
+
 export type SSRCacheItem<TResult> = {
   result: TResult;
   isSubscription: boolean;
+  // The version of the computation that produced the result (see `calculateComputationVersion` in the macro)
+  version?: string;
+  // The time when the result is computed (in milliseconds since the epoch)
+  createdAt?: number;
 }
 export type SSRCache = Record<string, SSRCacheItem<unknown>>;
+
+export type SSRCachePolicy = {
+  // The maximum number of cached results, the least recently used ones are evicted first
+  maxEntries?: number;
+  // The results older than it are treated as cache misses and recomputed
+  maxAgeMs?: number;
+};
+let cachePolicy: SSRCachePolicy = {};
 let ssrCache: SSRCache = {};
+// The cache of the currently running `runWithSSRCache` callback (if any).
+let scopedSSRCache: SSRCache | undefined;
+// The items written to the cache by the currently running `runWithSSRCache` callback
+let scopedRenderedCacheItems: WeakSet<SSRCacheItem<unknown>> | undefined;
+
+const SSRCacheContext = createContext<SSRCache | undefined>(undefined);
+
+export const configureSSRCache = (policy: SSRCachePolicy) => {
+  cachePolicy = { ...policy };
+}
 
 export const setSSRCache = (newCache: SSRCache) => {
   ssrCache = newCache;
 }
 
 export const getSSRCache = () => {
-  return ssrCache;
+  return scopedSSRCache ?? ssrCache;
+}
+
+export const getScopedRenderedCacheItems = () => {
+  return scopedRenderedCacheItems;
+}
+
+// Makes `getSSRCache` (and the hooks rendered synchronously inside the callback, e.g. by `renderToString`)
+// use the passed cache instead of the global one.
+// The scope ends when the callback returns, so async callbacks are rejected: the code after their first `await`
+// would write into the global cache. Async renders call it inside the render function instead,
+// e.g. `collectSSRComputations(() => runWithSSRCache(cache, () => renderToString(app)))`.
+export const runWithSSRCache = <T>(cache: SSRCache, callback: () => T): T => {
+  const previousScopedSSRCache = scopedSSRCache;
+  const previousScopedRenderedCacheItems = scopedRenderedCacheItems;
+  scopedSSRCache = cache;
+  scopedRenderedCacheItems = new WeakSet();
+  let result: T;
+  try {
+    result = callback();
+  } finally {
+    scopedSSRCache = previousScopedSSRCache;
+    scopedRenderedCacheItems = previousScopedRenderedCacheItems;
+  }
+  if (isPromise(result)) {
+    // The error of the callback is replaced by the thrown one, so it isn't reported as an unhandled rejection
+    result.then(undefined, () => {});
+    throw new Error('runWithSSRCache: the callback returned a Promise, but the cache is scoped to synchronous callbacks only. '
+      + 'Call runWithSSRCache inside the render function instead, e.g. `collectSSRComputations(() => runWithSSRCache(cache, () => renderToString(app)))`, '
+      + 'or wrap the app with SSRComputationProvider.');
+  }
+  return result;
+}
+
+type SSRComputationProviderProps = {
+  cache: SSRCache;
+  children?: ReactNode;
+};
+
+// Scopes the SSR cache to a React tree. Used to isolate concurrent server renders
+// and independently hydrated React roots on the same page.
+export const SSRComputationProvider = ({ cache, children }: SSRComputationProviderProps) => {
+  return createElement(SSRCacheContext.Provider, { value: cache }, children);
+}
+
+// The keys of the cache object keep the insertion order, so the cache itself is used as the LRU list:
+// the used items are moved to the end, and the items at the start are evicted first.
+const markAsRecentlyUsed = (cache: SSRCache, cacheKey: string) => {
+  const cacheItem = cache[cacheKey];
+  delete cache[cacheKey];
+  cache[cacheKey] = cacheItem;
+}
+
+const evictLeastRecentlyUsedItems = (cache: SSRCache) => {
+  const { maxEntries } = cachePolicy;
+  if (maxEntries === undefined) return;
+
+  const cacheKeys = Object.keys(cache);
+  const evictedCount = Math.max(cacheKeys.length - maxEntries, 0);
+  if (evictedCount === 0) return;
+
+  // The results of the mounted hooks aren't evicted: their hooks would recompute them, and evict each other's results
+  // in a loop if there are more mounted hooks than "maxEntries"
+  const evictedCacheKeys = cacheKeys.filter((cacheKey) => !hasCacheItemListeners(cache, cacheKey)).slice(0, evictedCount);
+  if (evictedCacheKeys.length === 0) return;
+
+  // The hooks rendered before they're subscribed recompute the evicted results as well.
+  // The items are evicted during the render of another hook, so they're notified once the render is finished.
+  invalidateCacheKeys(cache, evictedCacheKeys);
+  queueMicrotask(() => evictedCacheKeys.forEach((cacheKey) => notifyCacheItemListeners(cache, cacheKey)));
+}
+
+const isExpired = (cacheItem: SSRCacheItem<unknown>) => {
+  const { maxAgeMs } = cachePolicy;
+  return maxAgeMs !== undefined && cacheItem.createdAt !== undefined && Date.now() - cacheItem.createdAt > maxAgeMs;
+}
+
+// Checks if the cached item is produced by the same version of the computation and it's not expired.
+export const isValidCacheItem = (cacheItem: SSRCacheItem<unknown> | undefined, version: string | undefined): cacheItem is SSRCacheItem<unknown> => {
+  return !!cacheItem && cacheItem.version === version && !isExpired(cacheItem);
+}
+
+// Returns the cached item if it's valid, and marks it as recently used.
+export const getValidCacheItem = (cache: SSRCache, cacheKey: string, version: string | undefined) => {
+  const cacheItem = cache[cacheKey];
+  if (!isValidCacheItem(cacheItem, version)) return undefined;
+  markAsRecentlyUsed(cache, cacheKey);
+  return cacheItem;
+}
+
+export const setCacheItem = (cache: SSRCache, cacheKey: string, cacheItem: Omit<SSRCacheItem<unknown>, 'createdAt'>) => {
+  delete cache[cacheKey];
+  cache[cacheKey] = { ...cacheItem, createdAt: Date.now() };
+  evictLeastRecentlyUsedItems(cache);
+}
+
+export const useSSRCache = (): SSRCache => {
+  return useContext(SSRCacheContext) ?? getSSRCache();
 }
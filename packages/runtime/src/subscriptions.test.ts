@@ -0,0 +1,88 @@
+import { act, renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import { getSSRCache, setSSRCache } from "./ssrCache";
+import { fetchSubscriptions, pauseSubscriptions, resetSubscriptions, resumeSubscriptions } from "./subscriptions";
+import { setErrorHandler } from "./errorHandler";
+import { calculateCacheKey, SSRComputationModule } from "./utils";
+
+const createSubscriptionModule = () => {
+  let next: ((value: number) => void) | undefined;
+  const subscribe = jest.fn((_getCurrentResult, nextFn) => {
+    next = nextFn;
+    return {
+      unsubscribe: () => {
+        next = undefined;
+      },
+    };
+  });
+  const ssrComputationModule: SSRComputationModule<number> = { compute: () => 1, subscribe };
+  const importFn = jest.fn(() => Promise.resolve(ssrComputationModule));
+  const emit = (value: number) => next?.(value);
+  return { importFn, subscribe, emit, isSubscribed: () => !!next };
+}
+
+const renderCachedSubscription = (relativePathToCwd: string, chunkName: string) => {
+  getSSRCache()[calculateCacheKey(relativePathToCwd, [])] = { result: 0, isSubscription: true };
+  const subscriptionModule = createSubscriptionModule();
+  const hookUtils = renderHook(() => useSSRComputation_Client(subscriptionModule.importFn, [], { chunkName }, relativePathToCwd));
+  return { ...subscriptionModule, ...hookUtils };
+}
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  setSSRCache({});
+  resetSubscriptions();
+  setErrorHandler((error) => {
+    throw error;
+  });
+});
+
+test('fetchSubscriptions activates only the subscriptions of the passed paths and chunk names', async () => {
+  const first = renderCachedSubscription('app/first.ssr-computation', 'default-ssr-computations');
+  const second = renderCachedSubscription('app/second.ssr-computation', 'time-ssr-computations');
+
+  fetchSubscriptions({ paths: ['app/first.ssr-computation'] });
+  await first.waitForNextUpdate();
+  expect(first.result.current).toBe(1);
+  expect(first.isSubscribed()).toBe(true);
+  expect(second.importFn).not.toHaveBeenCalled();
+
+  fetchSubscriptions({ chunkNames: ['time-ssr-computations'] });
+  await second.waitForNextUpdate();
+  expect(second.result.current).toBe(1);
+  expect(second.isSubscribed()).toBe(true);
+});
+
+test('pauseSubscriptions unsubscribes the live subscriptions and resumeSubscriptions subscribes them again', async () => {
+  const { result, waitForNextUpdate, emit, subscribe, isSubscribed } = renderCachedSubscription('app/time.ssr-computation', 'default-ssr-computations');
+  fetchSubscriptions();
+  await waitForNextUpdate();
+  expect(subscribe).toHaveBeenCalledTimes(1);
+
+  pauseSubscriptions();
+  expect(isSubscribed()).toBe(false);
+
+  resumeSubscriptions();
+  expect(subscribe).toHaveBeenCalledTimes(2);
+  act(() => emit(5));
+  expect(result.current).toBe(5);
+});
+
+test('the subscriptions activated while paused are subscribed once they are resumed', async () => {
+  pauseSubscriptions();
+  const { waitForNextUpdate, subscribe, isSubscribed, unmount } = renderCachedSubscription('app/time.ssr-computation', 'default-ssr-computations');
+  fetchSubscriptions();
+  await waitForNextUpdate();
+  expect(subscribe).not.toHaveBeenCalled();
+
+  resumeSubscriptions();
+  expect(isSubscribed()).toBe(true);
+
+  unmount();
+  expect(isSubscribed()).toBe(false);
+  pauseSubscriptions();
+  resumeSubscriptions();
+  await flushPromises();
+  expect(subscribe).toHaveBeenCalledTimes(1);
+});
@@ -1,18 +1,107 @@
-export let fetchSubscriptions : () => void = () => undefined;
+export type SubscriptionsFilter = {
+  // The paths of the computation files relative to the cwd of the build (e.g. "app/formattedTime.ssr-computation")
+  paths?: string[];
+  // The names of the chunks that contain the computation files (e.g. "default-ssr-computations")
+  chunkNames?: string[];
+};
 
-let fetchSubscriptionsPromise = new Promise<void>((resolve) => {
-  fetchSubscriptions = () => resolve();
-});
+type SubscriptionTarget = {
+  relativePathToCwd: string;
+  chunkName?: string;
+};
 
-// Used only in unit tests to reset the subscription state before the start of the next test. Not exported to the user.
-export const resetFetchingSubscriptionsForTesting = () => {
-  fetchSubscriptions = () => undefined;
-  fetchSubscriptionsPromise = new Promise<void>((resolve) => {
-    fetchSubscriptions = () => resolve();
+type WaitingSubscription = SubscriptionTarget & {
+  activate: () => void;
+};
+
+// Implemented by the subscriptions shared by the hooks of the same cache key (see `computationStore.ts`)
+export type PausableSubscription = {
+  pauseSubscription: () => void;
+  resumeSubscription: () => void;
+};
+
+let areAllSubscriptionsActivated = false;
+let activatedPaths = new Set<string>();
+let activatedChunkNames = new Set<string>();
+let subscriptionsPaused = false;
+let waitingSubscriptions = new Set<WaitingSubscription>();
+let liveSubscriptions = new Set<PausableSubscription>();
+
+const isActivated = ({ relativePathToCwd, chunkName }: SubscriptionTarget) => {
+  return areAllSubscriptionsActivated ||
+    activatedPaths.has(relativePathToCwd) ||
+    (chunkName !== undefined && activatedChunkNames.has(chunkName));
+}
+
+// Loads the computations cached on the server side and subscribes to them.
+// If no filter is passed, all subscriptions are activated.
+export const fetchSubscriptions = ({ paths, chunkNames }: SubscriptionsFilter = {}) => {
+  if (!paths && !chunkNames) {
+    areAllSubscriptionsActivated = true;
+  }
+  paths?.forEach((path) => activatedPaths.add(path));
+  chunkNames?.forEach((chunkName) => activatedChunkNames.add(chunkName));
+
+  waitingSubscriptions.forEach((waitingSubscription) => {
+    if (!isActivated(waitingSubscription)) return;
+    waitingSubscriptions.delete(waitingSubscription);
+    waitingSubscription.activate();
   });
 }
 
-export async function runOnSubscriptionsResumed<T>(callback: () => T) {
-  await fetchSubscriptionsPromise;
-  return callback();
+// Unsubscribes all live subscriptions (e.g. when the tab is hidden). New subscriptions wait until they're resumed.
+export const pauseSubscriptions = () => {
+  if (subscriptionsPaused) return;
+  subscriptionsPaused = true;
+  liveSubscriptions.forEach((subscription) => subscription.pauseSubscription());
+}
+
+export const resumeSubscriptions = () => {
+  if (!subscriptionsPaused) return;
+  subscriptionsPaused = false;
+  liveSubscriptions.forEach((subscription) => subscription.resumeSubscription());
+}
+
+export const areSubscriptionsPaused = () => subscriptionsPaused;
+
+export const registerLiveSubscription = (subscription: PausableSubscription) => {
+  liveSubscriptions.add(subscription);
+}
+
+export const unregisterLiveSubscription = (subscription: PausableSubscription) => {
+  liveSubscriptions.delete(subscription);
+}
+
+// Resets the activated and paused subscriptions, e.g. before the next test. It doesn't unsubscribe the live subscriptions.
+export const resetSubscriptions = () => {
+  areAllSubscriptionsActivated = false;
+  activatedPaths = new Set();
+  activatedChunkNames = new Set();
+  subscriptionsPaused = false;
+  waitingSubscriptions = new Set();
+  liveSubscriptions = new Set();
+}
+
+// Runs the callback once the subscription of the computation is activated by `fetchSubscriptions`.
+// Returns a function that cancels it.
+export function runOnSubscriptionActivated(target: SubscriptionTarget, callback: () => void): () => void {
+  let isCanceled = false;
+  const activate = () => {
+    // The callback is always called asynchronously, like it's called after the activation
+    void Promise.resolve().then(() => {
+      if (!isCanceled) callback();
+    });
+  };
+
+  const waitingSubscription = { ...target, activate };
+  if (isActivated(target)) {
+    activate();
+  } else {
+    waitingSubscriptions.add(waitingSubscription);
+  }
+
+  return () => {
+    isCanceled = true;
+    waitingSubscriptions.delete(waitingSubscription);
+  };
 }
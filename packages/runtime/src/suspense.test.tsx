@@ -0,0 +1,139 @@
+import React, { Component as ReactComponent, ReactNode, Suspense } from "react";
+import { act, create } from "react-test-renderer";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import { getSSRCache, setSSRCache } from "./ssrCache";
+import { calculateCacheKey, NoResult, SSRComputationModule } from "./utils";
+import { setErrorHandler } from "./errorHandler";
+
+const relativePathToCwd = 'example/example.js';
+
+class ErrorBoundary extends ReactComponent<{ children: ReactNode }, { error: Error | null }> {
+  state = { error: null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    return this.state.error ? `Error: ${(this.state.error as Error).message}` : this.props.children;
+  }
+}
+
+// "@testing-library/react-hooks" doesn't rerender suspended hooks with React 18, so "react-test-renderer" is used directly
+const renderSuspenseHook = async <TResult,>(ssrComputationModule: SSRComputationModule<TResult>) => {
+  const importFn = jest.fn(() => Promise.resolve(ssrComputationModule));
+  const renderedResults: (TResult | null)[] = [];
+  const Component = () => {
+    const result = useSSRComputation_Client(importFn, [1], { suspense: true }, relativePathToCwd);
+    renderedResults.push(result);
+    return null;
+  }
+
+  let renderer;
+  act(() => {
+    renderer = create(<ErrorBoundary><Suspense fallback={null}><Component /></Suspense></ErrorBoundary>);
+  });
+  const renderedBeforeResolving = [...renderedResults];
+  await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+  return { importFn, renderedResults, renderedBeforeResolving, renderer };
+}
+
+beforeEach(() => {
+  // React logs the errors caught by the error boundaries
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  setSSRCache({});
+  setErrorHandler((error) => {
+    throw error;
+  });
+});
+
+test('useSSRComputation_Client suspends until the result is computed in suspense mode', async () => {
+  const { renderedResults, renderedBeforeResolving, importFn } = await renderSuspenseHook({
+    compute: (param1) => Number(param1) * 2,
+  });
+
+  // The component is suspended, so it doesn't render any result before the computation is resolved
+  expect(renderedBeforeResolving).toEqual([]);
+  expect(renderedResults).toEqual([2]);
+  expect(importFn).toHaveBeenCalledTimes(1);
+  expect(getSSRCache()[calculateCacheKey(relativePathToCwd, [1])]?.result).toBe(2);
+});
+
+test('useSSRComputation_Client awaits async compute functions in suspense mode', async () => {
+  const { renderedResults } = await renderSuspenseHook({
+    compute: (param1) => Promise.resolve(`async ${param1}`),
+  });
+
+  expect(renderedResults).toEqual(['async 1']);
+});
+
+test("useSSRComputation_Client doesn't suspend if the result is cached", async () => {
+  getSSRCache()[calculateCacheKey(relativePathToCwd, [1])] = { result: 5, isSubscription: false };
+  const { renderedBeforeResolving, importFn } = await renderSuspenseHook({
+    compute: () => 10,
+  });
+
+  expect(renderedBeforeResolving).toEqual([5]);
+  expect(importFn).not.toHaveBeenCalled();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('useSSRComputation_Client reports computations that return no result in suspense mode', async () => {
+  const errorHandler = jest.fn();
+  setErrorHandler(errorHandler);
+  const { renderedResults, renderer } = await renderSuspenseHook({
+    compute: () => NoResult,
+  });
+
+  // The error is thrown to the error boundary instead of returning null
+  expect(renderedResults).toEqual([]);
+  expect(renderer.toJSON()).toMatch('must return a result in suspense mode');
+  expect(errorHandler).toHaveBeenCalledWith(
+    expect.objectContaining({
+      message: expect.stringContaining('must return a result in suspense mode'),
+      ssrComputationFile: relativePathToCwd,
+    }),
+  );
+});
+
+test('useSSRComputation_Client throws the failed computations to the error boundary after the dependencies change in suspense mode', async () => {
+  const errorHandler = jest.fn();
+  setErrorHandler(errorHandler);
+  getSSRCache()[calculateCacheKey(relativePathToCwd, [1])] = { result: 5, isSubscription: false };
+  const importFn = jest.fn(() => Promise.resolve({
+    compute: (param1) => {
+      throw new Error(`Error for ${param1}`);
+    },
+  }));
+  const renderedResults: (number | null)[] = [];
+  const Component = ({ param }: { param: number }) => {
+    const result = useSSRComputation_Client(importFn, [param], { suspense: true }, relativePathToCwd);
+    renderedResults.push(result);
+    return null;
+  }
+
+  let renderer;
+  act(() => {
+    renderer = create(<ErrorBoundary><Suspense fallback={null}><Component param={1} /></Suspense></ErrorBoundary>);
+  });
+  act(() => {
+    renderer.update(<ErrorBoundary><Suspense fallback={null}><Component param={2} /></Suspense></ErrorBoundary>);
+  });
+  await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+  await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+  expect(renderedResults).toEqual([5]);
+  expect(renderer.toJSON()).toBe('Error: Error: Error for 2');
+  // The failed computation isn't retried until the error boundary renders the component again
+  expect(importFn).toHaveBeenCalledTimes(1);
+  expect(errorHandler).toHaveBeenCalledTimes(1);
+  expect(errorHandler).toHaveBeenCalledWith(
+    expect.objectContaining({
+      message: expect.stringContaining('Error for 2'),
+      ssrComputationFile: relativePathToCwd,
+    }),
+  );
+});
@@ -0,0 +1,62 @@
+import { setCacheItem, SSRCache } from "./ssrCache";
+import { ClientComputationFunction, Dependency, NoResult } from "./utils";
+import { importWithRetry } from "./importRetryPolicy";
+import { instrumentChunkLoad, instrumentCompute } from "./instrumentation";
+
+type SuspendedComputation =
+  | { status: 'pending', promise: Promise<void> }
+  | { status: 'rejected', error: unknown };
+
+// The state of suspended computations can't be stored in the component because React drops the state
+// of components that suspend before they're mounted. So, it's stored per cache and cache key instead.
+const suspendedComputations = new WeakMap<SSRCache, Map<string, SuspendedComputation>>();
+
+const getSuspendedComputations = (cache: SSRCache) => {
+  let computations = suspendedComputations.get(cache);
+  if (!computations) {
+    computations = new Map();
+    suspendedComputations.set(cache, computations);
+  }
+  return computations;
+}
+
+// Throws a promise that resolves when the result is stored in the cache, so the closest `<Suspense>` boundary
+// shows its fallback until then. If the computation failed, the error is returned once and the next render retries it.
+// The error isn't thrown here, because the hook must call all of its hooks before throwing it.
+export const suspendUntilComputed = <TResult>(
+  cache: SSRCache,
+  cacheKey: string,
+  version: string | undefined,
+  importFn: ClientComputationFunction<TResult>,
+  dependencies: Dependency[],
+  relativePathToCwd: string,
+): { error: unknown } => {
+  const computations = getSuspendedComputations(cache);
+  const suspendedComputation = computations.get(cacheKey);
+  if (suspendedComputation?.status === 'pending') {
+    throw suspendedComputation.promise;
+  }
+  if (suspendedComputation?.status === 'rejected') {
+    computations.delete(cacheKey);
+    return { error: suspendedComputation.error };
+  }
+
+  const promise = instrumentChunkLoad(relativePathToCwd, () => importWithRetry(importFn))
+    .then(async (module) => {
+      const { compute } = module;
+      if (!compute) throw new Error('The SSR Computation module must have a compute function');
+      const result = await instrumentCompute({ side: 'client', relativePathToCwd, cacheKey }, () => compute(...dependencies));
+      if (result === NoResult) throw new Error('The SSR Computation module must return a result in suspense mode');
+      setCacheItem(cache, cacheKey, {
+        result,
+        isSubscription: !!module.subscribe,
+        version,
+      });
+      computations.delete(cacheKey);
+    })
+    .catch((error) => {
+      computations.set(cacheKey, { status: 'rejected', error });
+    });
+  computations.set(cacheKey, { status: 'pending', promise });
+  throw promise;
+}
@@ -0,0 +1,99 @@
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputationState_Client from "./useSSRComputationState_Client";
+import useSSRComputationState_Server from "./useSSRComputationState_Server";
+import { getSSRCache, setSSRCache } from "./ssrCache";
+import { calculateCacheKey, SSRComputationModule } from "./utils";
+import { setErrorHandler } from "./errorHandler";
+
+const relativePathToCwd = 'example/example.js';
+const dependencies = [1];
+
+const renderStateHook = <TResult>(importFn: () => Promise<SSRComputationModule<TResult>>) => {
+  return renderHook(() => useSSRComputationState_Client(importFn, dependencies, {}, relativePathToCwd));
+}
+
+beforeEach(() => {
+  setSSRCache({});
+  setErrorHandler((error) => {
+    throw error;
+  });
+});
+
+test('useSSRComputationState_Client returns the "cached" status for the results cached on the server side', () => {
+  getSSRCache()[calculateCacheKey(relativePathToCwd, dependencies)] = { result: 5, isSubscription: false };
+  const { result } = renderStateHook(() => Promise.resolve({ compute: () => 10 }));
+
+  expect(result.current).toEqual({ result: 5, status: 'cached', error: null, isFromSSRCache: true });
+});
+
+test('useSSRComputationState_Client returns the "loading" status until the result is computed', async () => {
+  const { result, waitForNextUpdate } = renderStateHook(() => Promise.resolve({ compute: () => 10 }));
+
+  expect(result.current).toEqual({ result: null, status: 'loading', error: null, isFromSSRCache: false });
+  await waitForNextUpdate();
+  expect(result.current).toEqual({ result: 10, status: 'computed', error: null, isFromSSRCache: false });
+});
+
+test('useSSRComputationState_Client distinguishes the null results from not computed ones', async () => {
+  const { result, waitForNextUpdate } = renderStateHook(() => Promise.resolve({ compute: () => null }));
+
+  expect(result.current.status).toBe('loading');
+  await waitForNextUpdate();
+  expect(result.current).toEqual({ result: null, status: 'computed', error: null, isFromSSRCache: false });
+});
+
+test('useSSRComputationState_Client returns the "error" status if the computation file fails to load', async () => {
+  setErrorHandler(jest.fn());
+  const loadingError = new Error('Loading chunk failed');
+  const { result, waitForNextUpdate } = renderStateHook(() => Promise.reject(loadingError));
+
+  await waitForNextUpdate();
+  expect(result.current).toEqual({
+    result: null,
+    status: 'error',
+    error: expect.objectContaining({ error: loadingError, ssrComputationFile: relativePathToCwd }),
+    isFromSSRCache: false,
+  });
+});
+
+test('useSSRComputationState_Server returns the "cached" status or the "error" status', () => {
+  const errorHandler = jest.fn();
+  setErrorHandler(errorHandler);
+
+  const { result } = renderHook(() => useSSRComputationState_Server({ compute: () => 5 }, dependencies, {}, relativePathToCwd));
+  expect(result.current).toEqual({ result: 5, status: 'cached', error: null, isFromSSRCache: true });
+
+  // The same cache key is computed once per render, so the erroneous computation is rendered like in another request
+  setSSRCache({});
+  const { result: erroneousResult } = renderHook(() => useSSRComputationState_Server({
+    compute: () => {
+      throw new Error('Error for testing');
+    },
+  }, dependencies, {}, relativePathToCwd));
+  expect(erroneousResult.current).toEqual(expect.objectContaining({
+    result: null,
+    status: 'error',
+    error: expect.objectContaining({ message: expect.stringContaining('Error for testing') }),
+  }));
+  expect(errorHandler).toHaveBeenCalledTimes(1);
+});
+
+test('useSSRComputationState_Server renders the same state as the first render of the hydrated client', () => {
+  const computationModule = { compute: (param1) => Number(param1) * 2 };
+  const { result: serverResult } = renderHook(() => [
+    useSSRComputationState_Server(computationModule, dependencies, {}, relativePathToCwd),
+    // The duplicate calls are read from the cache of the render
+    useSSRComputationState_Server(computationModule, dependencies, {}, relativePathToCwd),
+  ]);
+
+  const { result: clientResult } = renderHook(() => [
+    useSSRComputationState_Client(() => Promise.resolve(computationModule), dependencies, {}, relativePathToCwd),
+    useSSRComputationState_Client(() => Promise.resolve(computationModule), dependencies, {}, relativePathToCwd),
+  ]);
+
+  expect(serverResult.current).toEqual([
+    { result: 2, status: 'cached', error: null, isFromSSRCache: true },
+    { result: 2, status: 'cached', error: null, isFromSSRCache: true },
+  ]);
+  expect(clientResult.all[0]).toEqual(serverResult.current);
+});
@@ -0,0 +1,15 @@
+import { wrapStateErrorHandler } from "./errorHandler";
+import { ClientComputationFunction, Dependency, Options, SSRComputationState } from "./utils";
+import { useSSRComputationState_ClientCore } from "./useSSRComputation_Client";
+
+const useSSRComputationState_Client = <TResult>(
+  importFn: ClientComputationFunction<TResult>,
+  dependencies: Dependency[],
+  options: Options,
+  relativePathToCwd: string,
+  version?: string,
+): SSRComputationState<TResult> => {
+  return useSSRComputationState_ClientCore(importFn, dependencies, options, relativePathToCwd, version, true);
+}
+
+export default wrapStateErrorHandler(useSSRComputationState_Client);
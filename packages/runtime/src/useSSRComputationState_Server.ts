@@ -0,0 +1,15 @@
+import { wrapStateErrorHandler } from "./errorHandler";
+import { Dependency, Options, ServerComputationFunction, SSRComputationState } from "./utils";
+import { useSSRComputationState_ServerCore } from "./useSSRComputation_Server";
+
+const useSSRComputationState_Server = <TResult>(
+  computationModule: ServerComputationFunction<TResult>,
+  dependencies: Dependency[],
+  options: Options,
+  relativePathToCwd: string,
+  version?: string,
+): SSRComputationState<TResult> => {
+  return useSSRComputationState_ServerCore(computationModule, dependencies, options, relativePathToCwd, version);
+}
+
+export default wrapStateErrorHandler(useSSRComputationState_Server);
@@ -9,7 +9,7 @@ import {
   SSRComputationModule,
 } from "./utils";
 import { getSSRCache, setSSRCache } from "./ssrCache";
-import { fetchSubscriptions, resetFetchingSubscriptionsForTesting } from "./subscriptions";
+import { fetchSubscriptions, resetSubscriptions } from "./subscriptions";
 import { setErrorHandler } from "./errorHandler";
 
 type MemoryLeakGuardedComputationFunction<TResult> = {
@@ -124,7 +124,7 @@ const createImportFn = <TResult>(ssrComputationModule: SSRComputationModule<TRes
 
 beforeEach(() => {
   setSSRCache({});
-  resetFetchingSubscriptionsForTesting();
+  resetSubscriptions();
 });
 
 const relativePathToCwd = 'example/example.js';
@@ -353,3 +353,74 @@ test('useSSRComputation_Client should handle dependencies change if the result i
     expect(result.current).toBe(25);
   });
 });
+
+test('useSSRComputation_Client awaits the result of an async compute function', async () => {
+  const { importFn } = createImportFn<number>({
+    compute: (param1) => Promise.resolve(Number(param1) * 2),
+  });
+
+  const { result, rerender, waitForNextUpdate } = renderHook(
+    ({ dependencies }) => useSSRComputation_Client(importFn, dependencies, {}, relativePathToCwd),
+    { initialProps: { dependencies: defaultDependencies } },
+  );
+  expect(result.current).toBeNull();
+  await waitForNextUpdate();
+  expect(result.current).toBe(2);
+
+  // The module is loaded now, but the async result is still returned in the next render cycle
+  rerender({ dependencies: [5] });
+  expect(result.current).toBeNull();
+  await waitForNextUpdate();
+  expect(result.current).toBe(10);
+});
+
+test('useSSRComputation_Client treats the results cached by another version of the computation as cache misses', async () => {
+  const cacheKey = calculateCacheKey(relativePathToCwd, defaultDependencies);
+  getSSRCache()[cacheKey] = { result: 5, isSubscription: false, version: 'old-version' };
+  const { importFn, computationLoaded } = createImportFn<number>({
+    compute: () => 10,
+  });
+
+  const { result: sameVersionResult, unmount } = renderHook(() => useSSRComputation_Client(importFn, defaultDependencies, {}, relativePathToCwd, 'old-version'));
+  expect(sameVersionResult.current).toBe(5);
+  expect(computationLoaded.current).toBe(false);
+  unmount();
+
+  const { result, waitForNextUpdate } = renderHook(() => useSSRComputation_Client(importFn, defaultDependencies, {}, relativePathToCwd, 'new-version'));
+  expect(result.current).toBeNull();
+  await waitForNextUpdate();
+  expect(result.current).toBe(10);
+  expect(getSSRCache()[cacheKey]).toEqual({ result: 10, isSubscription: false, version: 'new-version', createdAt: expect.any(Number) });
+});
+
+test('useSSRComputation_Client keeps the previous result until the result of the new dependencies is available', async () => {
+  cacheValue(5, false);
+  const { importFn } = createImportFn<number>({
+    compute: (param1) => Number(param1) * 10,
+  });
+
+  const { result, rerender, waitForNextUpdate } = renderHook(
+    ({ dependencies }) => useSSRComputation_Client(importFn, dependencies, { keepPreviousResult: true }, relativePathToCwd),
+    { initialProps: { dependencies: defaultDependencies } },
+  );
+  expect(result.current).toBe(5);
+
+  rerender({ dependencies: [2] });
+  expect(result.current).toBe(5);
+  await waitForNextUpdate();
+  expect(result.current).toBe(20);
+  expect(getSSRCache()[calculateCacheKey(relativePathToCwd, [2])]?.result).toBe(20);
+});
+
+test('useSSRComputation_Client returns the placeholder when there is no result available', async () => {
+  const { importFn } = createImportFn<string>({
+    compute: () => 'computed',
+  });
+
+  const { result, waitForNextUpdate } = renderHook(
+    () => useSSRComputation_Client(importFn, defaultDependencies, { placeholder: 'placeholder' }, relativePathToCwd),
+  );
+  expect(result.current).toBe('placeholder');
+  await waitForNextUpdate();
+  expect(result.current).toBe('computed');
+});
@@ -1,121 +1,258 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import {
   calculateCacheKey,
   ClientComputationFunction,
   Dependency,
+  isPromise,
   NoResult,
   NoResultType,
   Options,
   parseDependencies,
   SSRComputationModule,
-  Subscription,
+  SSRComputationState,
+  SSRComputationStatus,
 } from "./utils";
-import { wrapErrorHandler } from "./errorHandler";
-import { getSSRCache } from "./ssrCache";
-import { runOnSubscriptionsResumed } from "./subscriptions";
+import { handleError, UseSSRComputationError, wrapErrorHandler } from "./errorHandler";
+import { importWithRetry } from "./importRetryPolicy";
+import { getValidCacheItem, isValidCacheItem, setCacheItem, SSRCache, useSSRCache } from "./ssrCache";
+import { runOnSubscriptionActivated } from "./subscriptions";
+import {
+  acquireSubscription,
+  getInvalidationCount,
+  invalidateCacheKeys,
+  notifyCacheItemListeners,
+  subscribeToCacheItem,
+  SubscriptionConsumer,
+} from "./computationStore";
+import { suspendUntilComputed } from "./suspense";
+import { useSyncExternalStore } from "./useSyncExternalStore";
+import { retainWorkers } from "./workerComputation";
+import { scheduleHydrationVerification } from "./verifyOnHydrate";
+import { instrumentChunkLoad, instrumentCompute, recordCacheHit, recordCacheMiss } from "./instrumentation";
 
 type ClientState<TResult> = {
   module?: SSRComputationModule<TResult>,
-  currentResult: TResult | null,
+  // The last rendered result of the cache, used by the "keepPreviousResult" option
+  previousResult: TResult | NoResultType,
   importFn: ClientComputationFunction<TResult>,
   currentExecutor?: ComputationExecutor<TResult>,
 };
 
-class ComputationExecutor<TResult> {
+type ExecutorStatus = 'idle' | 'loading' | 'computed' | 'error';
+type ExecutorState = {
+  status: ExecutorStatus,
+  error: UseSSRComputationError | null,
+};
+
+const IDLE_EXECUTOR_STATE: ExecutorState = { status: 'idle', error: null };
+const subscribeToNothing = () => () => {};
+
+class ComputationExecutor<TResult> implements SubscriptionConsumer {
   isDisposed = false;
-  subscription: Subscription | undefined;
+  // Releases the subscription shared with the other hooks of the same cache key
+  releaseSubscription: (() => void) | undefined;
+  // Releases the workers of the computation, if it runs in a worker
+  releaseWorkers: (() => void) | undefined;
+  // The result of an async "compute" call that was started during the render
+  pendingResult: Promise<unknown> | undefined;
+  // It's replaced on every change, so it can be used as a `useSyncExternalStore` snapshot
+  executorState: ExecutorState = IDLE_EXECUTOR_STATE;
+  private stateListeners = new Set<() => void>();
 
   constructor(
+    private readonly cache: SSRCache,
+    private readonly cacheKey: string,
+    private readonly version: string | undefined,
+    private readonly relativePathToCwd: string,
     private readonly dependencies: Dependency[],
     private readonly updateResult: (TResult) => void,
     private readonly state: ClientState<TResult>,
   ) {}
 
-  handleSubscriptionIfModuleLoaded = ({ recomputeTheResult }: { recomputeTheResult: boolean }) => {
-    if (this.isDisposed || !this.state.module) return;
+  private setStatus = (status: ExecutorStatus, error: UseSSRComputationError | null = null) => {
+    if (this.isDisposed || (this.executorState.status === status && this.executorState.error === error)) return;
+    this.executorState = { status, error };
+    this.stateListeners.forEach((listener) => listener());
+  }
+
+  subscribeToState = (listener: () => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private compute = (fn: SSRComputationModule<TResult>['compute']) => {
+    return instrumentCompute({ side: 'client', relativePathToCwd: this.relativePathToCwd, cacheKey: this.cacheKey }, () => fn(...this.dependencies));
+  }
 
-    const updateResult = (newResult: TResult | NoResultType) => {
-      if (this.isDisposed || this.state.currentResult === newResult || newResult === NoResult) return;
+  private getCurrentResult = () => {
+    const cacheItem = this.cache[this.cacheKey];
+    return isValidCacheItem(cacheItem, this.version) ? cacheItem.result : null;
+  }
+
+  private updateResultIfChanged = (newResult: TResult | NoResultType) => {
+    if (this.isDisposed) return;
+    this.setStatus('computed');
+    if (this.getCurrentResult() !== newResult && newResult !== NoResult) {
       this.updateResult(newResult);
     }
+  }
+
+  // Errors of the async steps (loading the module, async computations and subscribing) can't be caught by `wrapErrorHandler`
+  private reportError = (error: unknown) => {
+    if (this.isDisposed) return;
+    const useSSRComputationError = new UseSSRComputationError(String(error), this.dependencies, this.relativePathToCwd, error);
+    this.setStatus('error', useSSRComputationError);
+    handleError(useSSRComputationError);
+  }
+
+  private subscribe = () => {
+    const { module } = this.state;
+    if (this.isDisposed || this.executorState.status === 'error' || !module?.subscribe || this.releaseSubscription) return;
+    this.releaseSubscription = acquireSubscription(this.cache, this.cacheKey, {
+      module,
+      dependencies: this.dependencies,
+      relativePathToCwd: this.relativePathToCwd,
+      version: this.version,
+    }, this);
+  }
+
+  onSubscriptionError = (error: UseSSRComputationError) => {
+    this.setStatus('error', error);
+  }
+
+  handleSubscriptionIfModuleLoaded = ({ recomputeTheResult }: { recomputeTheResult: boolean }) => {
+    if (this.isDisposed || !this.state.module) return;
+    this.releaseWorkers ??= retainWorkers(this.state.module);
 
     if (recomputeTheResult) {
       const fn = this.state.module?.compute;
-      if (fn) {
-        updateResult(fn(...this.dependencies));
+      const result = fn ? this.compute(fn) : NoResult;
+      if (isPromise(result)) {
+        this.pendingResult = result.then(this.updateResultIfChanged, this.reportError);
+      } else {
+        this.updateResultIfChanged(result);
       }
     }
-    const getCurrentResult = () => this.state.currentResult;
-    this.subscription = this.state.module?.subscribe?.(getCurrentResult, updateResult, ...this.dependencies);
+
+    if (this.pendingResult) {
+      void this.pendingResult.then(this.subscribe);
+    } else {
+      this.subscribe();
+    }
   }
 
+  // Returns the result synchronously if the module is loaded and its "compute" function is sync.
+  // Async results are passed to "updateResult" once they are resolved.
   getResultIfModuleLoaded = () => {
     const fn = this.state.module?.compute;
-    return fn ? fn(...this.dependencies) : NoResult;
+    if (!fn) return NoResult;
+
+    // It's called during the render before anything is subscribed to the state, so the listeners aren't notified
+    const result = this.compute(fn);
+    if (isPromise(result)) {
+      this.executorState = { status: 'loading', error: null };
+      this.pendingResult = result.then(this.updateResultIfChanged, this.reportError);
+      return NoResult;
+    }
+    this.executorState = { status: 'computed', error: null };
+    return result;
   }
 
   loadAndRun = () => {
     if (this.isDisposed) return;
-    this.state.importFn().then(module => {
+    this.setStatus('loading');
+    instrumentChunkLoad(this.relativePathToCwd, () => importWithRetry(this.state.importFn)).then(module => {
       if (this.isDisposed) return;
-      if (!module.compute) throw new Error('The SSR Computation module must have a compute function');
+      if (!module?.compute) throw new Error('The SSR Computation module must have a compute function');
       this.state.module = module;
       this.handleSubscriptionIfModuleLoaded({ recomputeTheResult: true });
-    });
+    }).catch(this.reportError);
   }
 
   dispose = () => {
     if (this.isDisposed) return;
     this.isDisposed = true;
-    this.subscription?.unsubscribe();
-    this.subscription = undefined;
+    this.stateListeners.clear();
+    this.releaseSubscription?.();
+    this.releaseSubscription = undefined;
+    this.releaseWorkers?.();
+    this.releaseWorkers = undefined;
   }
 }
 
-const useSSRComputation_Client = <TResult>(
+// Returns the result and the status of the computation.
+// If `trackStatus` is false, the component is rerendered only when the result changes.
+export const useSSRComputationState_ClientCore = <TResult>(
   importFn: ClientComputationFunction<TResult>,
   dependencies: Dependency[],
   options: Options,
-  relativePathToCwd: string
-): TResult | null => {
-  const [, forceUpdate] = useState(0);
+  relativePathToCwd: string,
+  version: string | undefined,
+  trackStatus: boolean,
+): SSRComputationState<TResult> => {
   const clientState = useRef<ClientState<TResult>>({
     importFn,
-    currentResult: null,
+    previousResult: NoResult,
   });
 
-  const cache = getSSRCache();
+  const cache = useSSRCache();
   const parsedDependencies = parseDependencies(dependencies);
   const skip = !!options.skip;
   // relativePathToCwd is used to make sure that the cache key is unique for each module
   // and it's not affected by the file that calls it
   const cacheKey = calculateCacheKey(relativePathToCwd, parsedDependencies);
 
-  const updateResult = useCallback((newResult: TResult, rerender: boolean) => {
-    cache[cacheKey] = {
+  const updateResult = useCallback((newResult: TResult, notify: boolean) => {
+    setCacheItem(cache, cacheKey, {
       result: newResult,
-      isSubscription: cache[cacheKey]?.isSubscription || !!clientState.current?.module?.subscribe,
-    }
-    clientState.current.currentResult = newResult;
-    if (rerender) {
-      forceUpdate(prevState => prevState + 1);
+      isSubscription: getValidCacheItem(cache, cacheKey, version)?.isSubscription || !!clientState.current?.module?.subscribe,
+      version,
+    });
+    // All hooks of the cache key are rerendered, including this one
+    if (notify) {
+      notifyCacheItemListeners(cache, cacheKey);
     }
-  }, [cacheKey]);
+  }, [cache, cacheKey, version]);
+
+  // The cache is read through `useSyncExternalStore`, so concurrent renders don't tear,
+  // and all hooks of the cache key are rerendered when its result is updated or invalidated.
+  const subscribeToCache = useCallback((onStoreChange: () => void) => subscribeToCacheItem(cache, cacheKey, onStoreChange), [cache, cacheKey]);
+  const getInvalidationSnapshot = useCallback(() => getInvalidationCount(cache, cacheKey), [cache, cacheKey]);
+  // A new executor recomputes the result after `invalidateSSRComputation` is called
+  const invalidationCount = useSyncExternalStore(subscribeToCache, getInvalidationSnapshot, getInvalidationSnapshot);
 
   const executor = useMemo(() => {
     clientState.current.currentExecutor?.dispose();
     clientState.current.currentExecutor = undefined;
 
     if (skip) return null;
-    const updateResultAndRerender = (newResult: TResult) => updateResult(newResult, true);
-    clientState.current.currentExecutor = new ComputationExecutor(parsedDependencies, updateResultAndRerender, clientState.current);
+    const updateResultAndNotify = (newResult: TResult) => updateResult(newResult, true);
+    clientState.current.currentExecutor = new ComputationExecutor(cache, cacheKey, version, relativePathToCwd, parsedDependencies, updateResultAndNotify, clientState.current);
 
     const computedResult = clientState.current.currentExecutor.getResultIfModuleLoaded();
     if (computedResult !== NoResult) {
       updateResult(computedResult, false);
     }
     return clientState.current.currentExecutor;
-  }, [skip, cacheKey, updateResult]);
+  }, [skip, cacheKey, updateResult, invalidationCount]);
+
+  // Only the suspense promise is thrown here, the error of a failed computation is thrown after all hooks are called
+  const suspenseFailure = options.suspense && !skip && !getValidCacheItem(cache, cacheKey, version)
+    ? suspendUntilComputed(cache, cacheKey, version, importFn, parsedDependencies, relativePathToCwd)
+    : undefined;
+
+  const getCacheSnapshot = useCallback(() => cache[cacheKey], [cache, cacheKey]);
+  const cacheItemSnapshot = useSyncExternalStore(subscribeToCache, getCacheSnapshot, getCacheSnapshot);
+
+  const subscribeToExecutor = useCallback((onStoreChange: () => void) => {
+    return trackStatus && executor ? executor.subscribeToState(onStoreChange) : subscribeToNothing();
+  }, [executor, trackStatus]);
+  const getExecutorSnapshot = useCallback(() => {
+    return trackStatus && executor ? executor.executorState : IDLE_EXECUTOR_STATE;
+  }, [executor, trackStatus]);
+  const executorState = useSyncExternalStore(subscribeToExecutor, getExecutorSnapshot, getExecutorSnapshot);
 
   useEffect(() => {
     // If the module is loaded, the current is result is calculated at the same render.
@@ -127,24 +264,91 @@ const useSSRComputation_Client = <TResult>(
     }
   }, [executor]);
 
-  const isCacheHit = cacheKey in cache;
-  const cachedResult = isCacheHit ? cache[cacheKey]?.result as TResult : NoResult;
-  const isStoredAsSubscriptionInCache = cache[cacheKey]?.isSubscription;
+  // The results cached by another version of the computation (e.g. in the HTML of an old deploy) are treated as cache misses
+  const cacheItem = isValidCacheItem(cacheItemSnapshot, version) ? cacheItemSnapshot : undefined;
+  const isCacheHit = !!cacheItem;
+  const cachedResult = isCacheHit ? cacheItem.result as TResult : NoResult;
+  const isStoredAsSubscriptionInCache = cacheItem?.isSubscription;
 
   useEffect(() => {
     // It loads the module and run it if there is a cache miss.
-    // If the module supports subscriptions, it will be loaded only when subscriptions are resumed.
+    // If the module supports subscriptions, it will be loaded only when its subscription is activated by `fetchSubscriptions`.
     if (clientState.current?.module || !executor) return;
     if (!isCacheHit) {
       executor.loadAndRun();
     } else if (isStoredAsSubscriptionInCache) {
-      void runOnSubscriptionsResumed(executor.loadAndRun);
+      return runOnSubscriptionActivated({ relativePathToCwd, chunkName: options.chunkName }, executor.loadAndRun);
     }
-  }, [isCacheHit, isStoredAsSubscriptionInCache, executor]);
+  }, [isCacheHit, isStoredAsSubscriptionInCache, executor, relativePathToCwd, options.chunkName]);
 
-  const result = cachedResult === NoResult ? null : cachedResult;
-  clientState.current.currentResult = result;
-  return result;
+  useEffect(() => {
+    // The results that expire while the hook is mounted are treated as invalidated, so a new executor recomputes them
+    if (cacheItemSnapshot && !cacheItem && cacheItemSnapshot.version === version) {
+      invalidateCacheKeys(cache, [cacheKey]);
+      notifyCacheItemListeners(cache, cacheKey);
+    }
+  }, [cacheItemSnapshot, cacheItem, cache, cacheKey, version]);
+
+  useEffect(() => {
+    // The rendered result is marked as recently used, and kept for the "keepPreviousResult" option once it's committed
+    if (cachedResult === NoResult) return;
+    getValidCacheItem(cache, cacheKey, version);
+    clientState.current.previousResult = cachedResult;
+  }, [cachedResult, cache, cacheKey, version]);
+
+  useEffect(() => {
+    // The result is a cache hit if it's read from the cache without computing it when the executor is created
+    if (!executor) return;
+    const event = { side: 'client', relativePathToCwd, cacheKey } as const;
+    if (cacheItem && executor.executorState.status === 'idle') {
+      recordCacheHit(event);
+    } else {
+      recordCacheMiss(event);
+    }
+  }, [executor]);
+
+  useEffect(() => {
+    // The results that aren't computed by this hook (e.g. hydrated from the server) are verified by `setVerifyOnHydrate`
+    if (!executor || !cacheItem || executor.executorState.status !== 'idle') return;
+    scheduleHydrationVerification(cache, cacheKey, cacheItem, clientState.current.importFn, parsedDependencies, relativePathToCwd);
+  }, [executor, cacheItem]);
+
+  if (suspenseFailure) {
+    throw suspenseFailure.error;
+  }
+
+  let result: TResult | null;
+  if (cachedResult !== NoResult) {
+    result = cachedResult;
+  } else if (options.keepPreviousResult && clientState.current.previousResult !== NoResult) {
+    result = clientState.current.previousResult;
+  } else {
+    result = (options.placeholder ?? null) as TResult | null;
+  }
+
+  const executorStatus = executorState.status;
+  let status: SSRComputationStatus;
+  if (executorStatus === 'error' || executorStatus === 'loading' || executorStatus === 'computed') {
+    status = executorStatus;
+  } else {
+    status = isCacheHit ? 'cached' : 'loading';
+  }
+  return {
+    result,
+    status,
+    error: executorState.error,
+    isFromSSRCache: isCacheHit && executorStatus !== 'computed',
+  };
+}
+
+const useSSRComputation_Client = <TResult>(
+  importFn: ClientComputationFunction<TResult>,
+  dependencies: Dependency[],
+  options: Options,
+  relativePathToCwd: string,
+  version?: string,
+): TResult | null => {
+  return useSSRComputationState_ClientCore(importFn, dependencies, options, relativePathToCwd, version, false).result;
 }
 
 export default wrapErrorHandler(useSSRComputation_Client);
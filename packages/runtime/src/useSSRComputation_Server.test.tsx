@@ -1,6 +1,9 @@
 import { renderHook } from '@testing-library/react-hooks';
 import { setErrorHandler } from "./errorHandler";
 import useSSRComputation_Server from "./useSSRComputation_Server";
+import { collectSSRComputations } from "./collectSSRComputations";
+import { runWithSSRCache, SSRCache } from "./ssrCache";
+import { calculateCacheKey } from "./utils";
 
 test('useSSRComputation_Server should trigger "errorHandler" when get called with an async function', () => {
   const erroneousModule = {
@@ -21,3 +24,96 @@ test('useSSRComputation_Server should trigger "errorHandler" when get called wit
     }),
   );
 });
+
+describe('async computations', () => {
+  const asyncModule = {
+    compute: (name) => new Promise<string>((resolve) => setTimeout(() => resolve(`Hello ${name}`), 10)),
+  };
+
+  test('collectSSRComputations resolves the async computations and renders again with their results', async () => {
+    const cache: SSRCache = {};
+    const renderedResults: (string | null)[] = [];
+
+    const output = await collectSSRComputations(() => runWithSSRCache(cache, () => {
+      const { result } = renderHook(() => useSSRComputation_Server(asyncModule, ['async'], {}, 'example/async.js'));
+      renderedResults.push(result.current);
+      return result.current;
+    }));
+
+    expect(renderedResults).toEqual([null, 'Hello async']);
+    expect(output).toBe('Hello async');
+    expect(cache[calculateCacheKey('example/async.js', ['async'])]?.result).toBe('Hello async');
+  });
+
+  test('collectSSRComputations reports rejected computations to the "errorHandler"', async () => {
+    const errorHandler = jest.fn();
+    setErrorHandler(errorHandler);
+    const rejectingModule = {
+      compute: () => Promise.reject(new Error('Async error for testing')),
+    };
+
+    const output = await collectSSRComputations(() => {
+      const { result } = renderHook(() => useSSRComputation_Server(rejectingModule, [], {}, 'example/rejecting.js'));
+      return result.current;
+    });
+
+    expect(output).toBeNull();
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining('Async error for testing'),
+        ssrComputationFile: 'example/rejecting.js',
+      }),
+    );
+  });
+
+  test('collectSSRComputations reports the computations still pending after the last pass and their rejections', async () => {
+    const errorHandler = jest.fn();
+    setErrorHandler(errorHandler);
+    let rejectComputation: (error: Error) => void = () => {};
+    const slowModule = {
+      compute: () => new Promise<string>((_, reject) => {
+        rejectComputation = reject;
+      }),
+    };
+
+    const output = await collectSSRComputations(() => {
+      const { result } = renderHook(() => useSSRComputation_Server(slowModule, [], {}, 'example/slow.js'));
+      return result.current;
+    }, { maxPasses: 1 });
+
+    expect(output).toBeNull();
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(errorHandler).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining('still pending after the last of 1 render passes'),
+        ssrComputationFile: 'example/slow.js',
+      }),
+    );
+
+    rejectComputation(new Error('Late error for testing'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(errorHandler).toHaveBeenCalledTimes(2);
+    expect(errorHandler).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining('Late error for testing'),
+        ssrComputationFile: 'example/slow.js',
+      }),
+    );
+  });
+
+  test('useSSRComputation_Server reports async computations rendered outside "collectSSRComputations"', () => {
+    const errorHandler = jest.fn();
+    setErrorHandler(errorHandler);
+
+    const { result } = renderHook(() => useSSRComputation_Server(asyncModule, ['async'], {}, 'example/async.js'));
+
+    expect(result.current).toBeNull();
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining('collectSSRComputations'),
+      }),
+    );
+  });
+});
@@ -1,28 +1,108 @@
 import { wrapErrorHandler } from "./errorHandler";
-import { calculateCacheKey, Dependency, NoResult, Options, ServerComputationFunction } from "./utils";
-import { getSSRCache } from "./ssrCache";
+import { calculateCacheKey, Dependency, isPromise, NoResult, Options, ServerComputationFunction, SSRComputationState } from "./utils";
+import { getScopedRenderedCacheItems, setCacheItem, useSSRCache } from "./ssrCache";
+import { getSSRComputationsCollector } from "./collectSSRComputations";
+import { getServerCacheItem, setServerCacheItem } from "./serverCache";
+import { checkPayloadBudget } from "./payloadBudget";
+import { instrumentCompute, recordCacheHit, recordCacheMiss } from "./instrumentation";
+import { createSerializedSizeMeter } from "./serialization";
 
-const useSSRComputation_Server = <TResult>(
+// The state of skipped computations and async computations that are not resolved yet
+const getLoadingState = <TResult>(options: Options): SSRComputationState<TResult> => ({
+  result: (options.placeholder ?? null) as TResult | null,
+  status: 'loading',
+  error: null,
+  isFromSSRCache: false,
+});
+
+// The results written to the cache are hydrated by the client as cached results,
+// so the server renders the same state to avoid hydration mismatches
+const getCachedState = <TResult>(result: TResult): SSRComputationState<TResult> => ({
+  result,
+  status: 'cached',
+  error: null,
+  isFromSSRCache: true,
+});
+
+export const useSSRComputationState_ServerCore = <TResult>(
   computationModule: ServerComputationFunction<TResult>,
   dependencies: Dependency[],
   options: Options,
   relativePathToCwd: string,
-): TResult | null => {
-  const cache = getSSRCache();
-  if (options.skip) return null;
+  version?: string,
+): SSRComputationState<TResult> => {
+  const cache = useSSRCache();
+  if (options.skip) return getLoadingState(options);
 
-  const result = computationModule.compute(...dependencies);
-  if (result === NoResult) {
-    throw new Error('The SSR Computation module must return a result on server side');
-  }
   // relativePathToCwd is used to make sure that the cache key is unique for each module
   // and it's not affected by the file that calls it
   const cacheKey = calculateCacheKey(relativePathToCwd, dependencies);
-  cache[cacheKey] = {
-    result,
-    isSubscription: !!computationModule.subscribe,
-  };
-  return result;
+  const event = { side: 'server', relativePathToCwd, cacheKey } as const;
+  const collector = getSSRComputationsCollector();
+  // Duplicate calls in the same render (the same `collectSSRComputations` or `runWithSSRCache` call) are computed once.
+  // The cache may outlive the render (e.g. the global cache), so the results of the previous renders are reused by the server cache only.
+  const renderedCacheItems = collector?.renderedCacheItems ?? getScopedRenderedCacheItems();
+  const renderedCacheItem = cache[cacheKey];
+  if (renderedCacheItem && renderedCacheItems?.has(renderedCacheItem) && renderedCacheItem.version === version) {
+    recordCacheHit(event);
+    return getCachedState(renderedCacheItem.result as TResult);
+  }
+
+  // The same computation is already being awaited by the collector
+  if (collector?.pending.has(cacheKey)) return getLoadingState(options);
+
+  const serverCacheTtlMs = options.serverCacheTtlMs ?? computationModule.serverCache?.ttlMs;
+  const serverCacheItem = serverCacheTtlMs !== undefined ? getServerCacheItem(cacheKey, version) : undefined;
+
+  // The result is serialized at most once to measure its size
+  const measureSize = createSerializedSizeMeter();
+  let result;
+  const settledComputation = collector?.settled.get(cacheKey);
+  if (serverCacheItem) {
+    recordCacheHit(event);
+    result = serverCacheItem.result;
+  } else if (settledComputation?.status === 'rejected') {
+    throw settledComputation.reason;
+  } else if (settledComputation) {
+    result = settledComputation.value;
+  } else {
+    recordCacheMiss(event);
+    result = instrumentCompute(event, () => computationModule.compute(...dependencies), measureSize);
+  }
+
+  if (isPromise(result)) {
+    if (!collector) {
+      throw new Error('The SSR Computation module returned a promise. Async computations must be rendered inside "collectSSRComputations"');
+    }
+    collector.pending.set(cacheKey, { promise: result, dependencies, relativePathToCwd });
+    return getLoadingState(options);
+  }
+
+  if (result === NoResult) {
+    throw new Error('The SSR Computation module must return a result on server side');
+  }
+  if (serverCacheTtlMs !== undefined && !serverCacheItem) {
+    setServerCacheItem(cacheKey, version, result, serverCacheTtlMs);
+  }
+  const cacheItem = { result, isSubscription: !!computationModule.subscribe, version };
+  if (!checkPayloadBudget(cacheItem, options.maxPayloadBytes, dependencies, relativePathToCwd, measureSize)) {
+    // The dropped results are computed again by the client, so the server renders the state the client hydrates to
+    return getLoadingState(options);
+  }
+  setCacheItem(cache, cacheKey, cacheItem);
+  const writtenCacheItem = cache[cacheKey];
+  if (writtenCacheItem) renderedCacheItems?.add(writtenCacheItem);
+  return getCachedState(result);
+}
+
+const useSSRComputation_Server = <TResult>(
+  computationModule: ServerComputationFunction<TResult>,
+  dependencies: Dependency[],
+  options: Options,
+  relativePathToCwd: string,
+  version?: string,
+): TResult | null => {
+  return useSSRComputationState_ServerCore(computationModule, dependencies, options, relativePathToCwd, version).result;
 }
 
 export default wrapErrorHandler(useSSRComputation_Server);
@@ -0,0 +1,34 @@
+import * as React from "react";
+import { useEffect, useRef, useState } from "react";
+
+type Subscribe = (onStoreChange: () => void) => () => void;
+type UseSyncExternalStore = <TSnapshot>(
+  subscribe: Subscribe,
+  getSnapshot: () => TSnapshot,
+  getServerSnapshot?: () => TSnapshot,
+) => TSnapshot;
+
+// React 17 doesn't have `useSyncExternalStore`, so it's replaced by a shim that rerenders the component
+// when the snapshot changes. Unlike the React 18 hook, it doesn't prevent tearing in concurrent renders.
+const useSyncExternalStoreShim: UseSyncExternalStore = (subscribe, getSnapshot) => {
+  const snapshot = getSnapshot();
+  const [, forceUpdate] = useState(0);
+  const renderedSnapshot = useRef(snapshot);
+  renderedSnapshot.current = snapshot;
+
+  useEffect(() => {
+    const rerenderIfChanged = () => {
+      if (!Object.is(renderedSnapshot.current, getSnapshot())) {
+        forceUpdate(prevState => prevState + 1);
+      }
+    };
+    // The store could have changed between the render and subscribing to it
+    rerenderIfChanged();
+    return subscribe(rerenderIfChanged);
+  }, [subscribe, getSnapshot]);
+
+  return snapshot;
+}
+
+export const useSyncExternalStore: UseSyncExternalStore =
+  (React as { useSyncExternalStore?: UseSyncExternalStore }).useSyncExternalStore ?? useSyncExternalStoreShim;
@@ -0,0 +1,41 @@
+import { calculateCacheKey, Dependency, parseDependencies } from "./utils";
+
+const modulePath = 'example/example.js';
+const cacheKey = (...dependencies: Dependency[]) => calculateCacheKey(modulePath, dependencies);
+
+test('calculateCacheKey distinguishes values that are joined or stringified to the same text', () => {
+  const keys = [
+    cacheKey('a,b'),
+    cacheKey('a', 'b'),
+    cacheKey(['a', 'b']),
+    cacheKey(1),
+    cacheKey('1'),
+    cacheKey({ uniqueId: '1' }),
+    cacheKey(true),
+    cacheKey('true'),
+    cacheKey(null),
+    cacheKey('null'),
+    cacheKey(undefined),
+    cacheKey(),
+    cacheKey(''),
+    cacheKey([]),
+    cacheKey({}),
+  ];
+
+  expect(new Set(keys).size).toBe(keys.length);
+});
+
+test('calculateCacheKey produces the same key for structurally equal objects', () => {
+  expect(cacheKey({ a: 1, b: [true, { c: null }] })).toBe(cacheKey({ b: [true, { c: null }], a: 1 }));
+  expect(cacheKey({ a: 1 })).not.toBe(cacheKey({ a: '1' }));
+  expect(cacheKey({ uniqueId: 'user-1', name: 'John' })).toBe(cacheKey({ uniqueId: 'user-1', name: 'Jane' }));
+});
+
+test('parseDependencies accepts structured dependencies and rejects the ones that can not be serialized', () => {
+  const dependencies = [true, null, undefined, [1, 'a'], { a: { b: [false] } }, { uniqueId: 'x' }];
+  expect(parseDependencies(dependencies)).toEqual(dependencies);
+
+  expect(() => parseDependencies([() => 1])).toThrow('is not a valid dependency object');
+  expect(() => parseDependencies([new Date()])).toThrow('is not a valid dependency object');
+  expect(() => parseDependencies([{ a: () => 1 }])).toThrow('is not a valid dependency object');
+});
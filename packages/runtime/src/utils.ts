@@ -1,14 +1,51 @@
-export type Dependency = number | string | { uniqueId: string; }
+import type { UseSSRComputationError } from "./errorHandler";
+import type { ServerCacheConfig } from "./serverCache";
 
-export type Options = {
+export type Dependency =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | { uniqueId: string; }
+  | Dependency[]
+  | { [key: string]: Dependency };
+
+export type Options<TResult = unknown> = {
   skip?: boolean,
+  // Suspends the component on a cache miss until the result is computed on the client side
+  suspense?: boolean,
+  // Returns the last result of the call site until the result of the new dependencies is available
+  keepPreviousResult?: boolean,
+  // Returned instead of `null` when there is no result available
+  placeholder?: TResult,
+  // The name of the chunk that contains the computation file. It's set by the macro on the client side.
+  chunkName?: string,
+  // Reuses the result between the server renders for the given time (overrides the `serverCache` export of the computation file)
+  serverCacheTtlMs?: number,
+  // The maximum size of the cached result embedded in the HTML (in bytes), overrides the budget of `configurePayloadBudget`
+  maxPayloadBytes?: number,
 };
 
 export const NoResult = Symbol("NoResult");
 export type NoResultType = typeof NoResult;
 
+export const isPlainObject = (value: any): value is Record<string, any> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+const hasUniqueId = (value: any): value is { uniqueId: string } => {
+  return typeof value === 'object' && value !== null && value.uniqueId !== undefined;
+}
+
 export function isDependency(element: any): element is Dependency {
-  return typeof element === 'number' || typeof element === 'string' || (typeof element === 'object' && element.uniqueId !== undefined);
+  if (element === null || element === undefined) return true;
+  if (['number', 'string', 'boolean'].includes(typeof element)) return true;
+  if (hasUniqueId(element)) return true;
+  if (Array.isArray(element)) return element.every(isDependency);
+  return isPlainObject(element) && Object.values(element).every(isDependency);
 }
 
 export function parseDependencies(dependencies: any): Dependency[] {
@@ -24,25 +61,39 @@ export function parseDependencies(dependencies: any): Dependency[] {
   });
 }
 
-const mapDependencyToValue = (dependency: Dependency): string => {
-  if (typeof dependency === 'number') {
-    return dependency.toString();
-  }
-  if (typeof dependency === 'string') {
-    return dependency;
-  }
-  return dependency.uniqueId;
+// Encodes the dependency with its type, so values of different types (e.g. `1` and `"1"`) never produce the same key.
+// Strings are quoted, so they can't be confused with the delimiters of arrays and objects (e.g. `["a,b"]` and `["a", "b"]`).
+// Object keys are sorted, so the same object always produces the same key on the server and the client.
+const encodeDependency = (dependency: Dependency): string => {
+  if (dependency === null) return 'null';
+  if (dependency === undefined) return 'undefined';
+  if (typeof dependency === 'number') return `n:${dependency}`;
+  if (typeof dependency === 'string') return `s:${JSON.stringify(dependency)}`;
+  if (typeof dependency === 'boolean') return `b:${dependency}`;
+  if (Array.isArray(dependency)) return `[${dependency.map(encodeDependency).join(',')}]`;
+  if (hasUniqueId(dependency)) return `u:${JSON.stringify(dependency.uniqueId)}`;
+
+  const encodedEntries = Object.keys(dependency)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${encodeDependency(dependency[key])}`);
+  return `{${encodedEntries.join(',')}}`;
 }
 
 export const calculateCacheKey = (modulePath: string, dependencies: Dependency[]): string => {
-  const dependenciesString = dependencies.map(mapDependencyToValue).join(',');
+  const dependenciesString = dependencies.map(encodeDependency).join(',');
 
   return `${modulePath}::${dependenciesString}`;
 }
 
+export function isPromise(value: any): value is Promise<unknown> {
+  return !!value && typeof value.then === 'function';
+}
+
 export type SSRComputationModule<TResult> = {
-  compute: (...dependencies: Dependency[]) => TResult | NoResultType;
+  compute: (...dependencies: Dependency[]) => TResult | NoResultType | Promise<TResult | NoResultType>;
   subscribe?: (getCurrentResult: () => TResult | null, next: (result: TResult) => void, ...dependencies: Dependency[]) => Subscription;
+  // Reuses the results between the server renders (see `serverCache.ts`)
+  serverCache?: ServerCacheConfig;
 };
 export type ServerComputationFunction<TResult> = SSRComputationModule<TResult>;
 export type ClientComputationFunction<TResult> = () => Promise<SSRComputationModule<TResult>>
@@ -51,9 +102,26 @@ export type SSRComputationHook<TResult, Fn extends ServerComputationFunction<TRe
   fn: Fn,
   dependencies: Dependency[],
   options: Options,
-  relativePathToCwd: string
+  relativePathToCwd: string,
+  version?: string,
 ) => TResult | null;
 
+export type SSRComputationStatus = 'cached' | 'loading' | 'computed' | 'error';
+
+export type SSRComputationState<TResult> = {
+  result: TResult | null;
+  // "cached": the result is read from the cache, "loading": the computation file is being downloaded or computed,
+  // "computed": the result is computed on the client side, "error": downloading or computing the result failed.
+  // The server returns "cached" for the results written to the cache, the same state the client hydrates them to.
+  status: SSRComputationStatus;
+  error: UseSSRComputationError | null;
+  isFromSSRCache: boolean;
+};
+
+export type SSRComputationStateHook<TResult, Fn extends ServerComputationFunction<TResult> | ClientComputationFunction<TResult>> = (
+  ...args: Parameters<SSRComputationHook<TResult, Fn>>
+) => SSRComputationState<TResult>;
+
 export type ServerHook<TResult> = SSRComputationHook<TResult, ServerComputationFunction<TResult>>;
 export type ClientHook<TResult> = SSRComputationHook<TResult, ClientComputationFunction<TResult>>;
 
@@ -0,0 +1,80 @@
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import { diffValues, setVerifyOnHydrate } from "./verifyOnHydrate";
+import { getSSRCache, setSSRCache } from "./ssrCache";
+import { setErrorHandler } from "./errorHandler";
+import { calculateCacheKey, SSRComputationModule } from "./utils";
+
+const relativePathToCwd = 'app/greeting.ssr-computation';
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const renderHydratedHook = (cachedResult: unknown, ssrComputationModule: SSRComputationModule<unknown>, isSubscription = false) => {
+  getSSRCache()[calculateCacheKey(relativePathToCwd, ['world'])] = { result: cachedResult, isSubscription };
+  const importFn = jest.fn(() => Promise.resolve(ssrComputationModule));
+  const hookUtils = renderHook(() => useSSRComputation_Client(importFn, ['world'], {}, relativePathToCwd));
+  return { importFn, ...hookUtils };
+}
+
+const errorHandler = jest.fn();
+
+beforeEach(() => {
+  setSSRCache({});
+  setVerifyOnHydrate(true);
+  errorHandler.mockClear();
+  setErrorHandler(errorHandler);
+});
+
+afterAll(() => {
+  setVerifyOnHydrate(false);
+});
+
+test('the hydrated results that differ from the results computed on the client side are reported with a diff', async () => {
+  const { result } = renderHydratedHook({ greeting: 'Hello world', time: 1 }, {
+    compute: (name) => ({ greeting: `Hello ${name}`, time: 2 }),
+  });
+  await flushPromises();
+
+  expect(result.current).toEqual({ greeting: 'Hello world', time: 1 });
+  expect(errorHandler).toHaveBeenCalledTimes(1);
+  expect(errorHandler.mock.calls[0][0]).toMatchObject({
+    message: expect.stringContaining('result.time: 1 !== 2'),
+    ssrComputationFile: relativePathToCwd,
+    dependencies: ['world'],
+  });
+});
+
+test('the deterministic computations are not reported', async () => {
+  const { importFn } = renderHydratedHook(new Date(0), { compute: () => new Date(0) });
+  await flushPromises();
+
+  expect(importFn).toHaveBeenCalledTimes(1);
+  expect(errorHandler).not.toHaveBeenCalled();
+});
+
+test('the subscriptions are not verified', async () => {
+  const { importFn } = renderHydratedHook(1, { compute: () => 2, subscribe: () => ({ unsubscribe: () => {} }) }, true);
+  await flushPromises();
+
+  expect(importFn).not.toHaveBeenCalled();
+  expect(errorHandler).not.toHaveBeenCalled();
+});
+
+test('nothing is verified unless it is enabled', async () => {
+  setVerifyOnHydrate(false);
+  const { importFn } = renderHydratedHook(1, { compute: () => 2 });
+  await flushPromises();
+
+  expect(importFn).not.toHaveBeenCalled();
+});
+
+test('diffValues lists the paths of the differences', () => {
+  expect(diffValues(
+    { list: [1, 2], map: new Map([['a', 1]]), set: new Set([1]), same: new Date(0) },
+    { list: [1, 3, 4], map: new Map([['a', 2]]), set: new Set([2]), same: new Date(0) },
+  )).toEqual([
+    'result.list[1]: 2 !== 3',
+    'result.list[2]: undefined !== 4',
+    'result.map.get("a"): 1 !== 2',
+    'result.set: Set(1) !== Set(1)',
+  ]);
+});
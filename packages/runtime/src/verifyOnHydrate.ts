@@ -0,0 +1,118 @@
+import { SSRCache, SSRCacheItem } from "./ssrCache";
+import { ClientComputationFunction, Dependency, isPlainObject, NoResult } from "./utils";
+import { handleError, UseSSRComputationError } from "./errorHandler";
+import { importWithRetry } from "./importRetryPolicy";
+
+// The maximum number of differences listed in the reported error
+const MAX_REPORTED_DIFFERENCES = 10;
+
+let isVerifyOnHydrateEnabled = false;
+// The cache keys are verified once per cache, even if many hooks use them
+const verifiedCacheKeys = new WeakMap<SSRCache, Set<string>>();
+
+// Enables rerunning the computations of the hydrated results on the client side to detect non-deterministic computations.
+// It downloads all computation files, so it must be enabled in development only.
+export const setVerifyOnHydrate = (enabled: boolean) => {
+  isVerifyOnHydrateEnabled = enabled;
+}
+
+const formatValue = (value: unknown) => {
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (value instanceof Date) return `Date(${isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()})`;
+  if (value instanceof Map) return `Map(${value.size})`;
+  if (value instanceof Set) return `Set(${value.size})`;
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (isPlainObject(value)) return 'Object';
+  return String(value);
+}
+
+// Deeply compares the values and returns the differences, e.g. `result.items[1].price: 10 !== 12`.
+// The values supported by the cache serialization are compared by their contents.
+export const diffValues = (expected: unknown, actual: unknown, path = 'result'): string[] => {
+  if (Object.is(expected, actual)) return [];
+  const difference = [`${path}: ${formatValue(expected)} !== ${formatValue(actual)}`];
+
+  if (expected instanceof Date && actual instanceof Date) {
+    return Object.is(expected.getTime(), actual.getTime()) ? [] : difference;
+  }
+  if (expected instanceof Set && actual instanceof Set) {
+    const isEqual = expected.size === actual.size && Array.from(expected).every((value) => actual.has(value));
+    return isEqual ? [] : difference;
+  }
+  if (expected instanceof Map && actual instanceof Map) {
+    const keys = Array.from(new Set([...expected.keys(), ...actual.keys()]));
+    return keys.flatMap((key) => {
+      if (!expected.has(key) || !actual.has(key)) return [`${path}.get(${formatValue(key)}): ${expected.has(key) ? 'present' : 'missing'} !== ${actual.has(key) ? 'present' : 'missing'}`];
+      return diffValues(expected.get(key), actual.get(key), `${path}.get(${formatValue(key)})`);
+    });
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    return Array.from({ length }, (_, index) => diffValues(expected[index], actual[index], `${path}[${index}]`)).flat();
+  }
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]));
+    return keys.flatMap((key) => diffValues(expected[key], actual[key], `${path}.${key}`));
+  }
+  return difference;
+}
+
+const verifyCachedResult = async <TResult>(
+  cacheItem: SSRCacheItem<unknown>,
+  importFn: ClientComputationFunction<TResult>,
+  dependencies: Dependency[],
+  relativePathToCwd: string,
+) => {
+  let result: unknown;
+  try {
+    const module = await importWithRetry(importFn);
+    result = await module.compute(...dependencies);
+  } catch (error) {
+    handleError(new UseSSRComputationError(`useSSRComputation: verifying the hydrated result failed: ${String(error)}`, dependencies, relativePathToCwd, error));
+    return;
+  }
+  if (result === NoResult) return;
+
+  const differences = diffValues(cacheItem.result, result);
+  if (differences.length === 0) return;
+  const listedDifferences = differences.slice(0, MAX_REPORTED_DIFFERENCES);
+  if (differences.length > listedDifferences.length) {
+    listedDifferences.push(`... and ${differences.length - listedDifferences.length} more`);
+  }
+  const message = `useSSRComputation: the result computed on the client side differs from the hydrated result (hydrated !== computed):\n${listedDifferences.join('\n')}`;
+  handleError(new UseSSRComputationError(message, dependencies, relativePathToCwd, undefined, result));
+}
+
+const runWhenIdle = (callback: () => void) => {
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback(callback);
+  } else {
+    setTimeout(callback, 0);
+  }
+}
+
+// Called by the client hook for the results read from the cache. Once the browser is idle, it reruns the computation
+// and reports the differences to the error handler. The results of subscriptions change over time, so they're skipped.
+export const scheduleHydrationVerification = <TResult>(
+  cache: SSRCache,
+  cacheKey: string,
+  cacheItem: SSRCacheItem<unknown>,
+  importFn: ClientComputationFunction<TResult>,
+  dependencies: Dependency[],
+  relativePathToCwd: string,
+) => {
+  if (!isVerifyOnHydrateEnabled || cacheItem.isSubscription) return;
+
+  let cacheKeys = verifiedCacheKeys.get(cache);
+  if (!cacheKeys) {
+    cacheKeys = new Set();
+    verifiedCacheKeys.set(cache, cacheKeys);
+  }
+  if (cacheKeys.has(cacheKey)) return;
+  cacheKeys.add(cacheKey);
+
+  runWhenIdle(() => {
+    void verifyCachedResult(cacheItem, importFn, dependencies, relativePathToCwd);
+  });
+}
@@ -0,0 +1,86 @@
+import { renderHook } from "@testing-library/react-hooks";
+import useSSRComputation_Client from "./useSSRComputation_Client";
+import { configureSSRComputationWorkers, exposeSSRComputation, importWorkerSSRComputation } from "./workerComputation";
+import { setSSRCache } from "./ssrCache";
+import { setErrorHandler } from "./errorHandler";
+import { NoResult, SSRComputationModule } from "./utils";
+
+const ssrComputationModule: SSRComputationModule<unknown> = {
+  compute: async (kind) => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (kind === 'date') return new Date(0);
+    if (kind === 'noResult') return NoResult;
+    throw new Error('compute failed');
+  },
+};
+
+// Runs the worker entry (`exposeSSRComputation`) in the same thread, with its own fake worker scope
+class FakeWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  terminate = jest.fn();
+  private scope: { onmessage: ((event: { data: unknown }) => void) | null, postMessage: (message: unknown) => void };
+
+  constructor() {
+    this.scope = {
+      onmessage: null,
+      postMessage: (message) => setTimeout(() => this.onmessage?.({ data: message }), 0),
+    };
+    globalThis.self = this.scope as any;
+    exposeSSRComputation(ssrComputationModule);
+  }
+
+  postMessage(message: unknown) {
+    setTimeout(() => this.scope.onmessage?.({ data: message }), 0);
+  }
+}
+
+let workers: FakeWorker[];
+const createWorker = () => {
+  const worker = new FakeWorker();
+  workers.push(worker);
+  return worker as unknown as Worker;
+};
+
+let pathIndex = 0;
+const uniquePath = () => `app/worker${pathIndex++}.ssr-computation`;
+
+beforeEach(() => {
+  workers = [];
+  configureSSRComputationWorkers({ maxWorkers: 2 });
+  setSSRCache({});
+  setErrorHandler(() => {});
+});
+
+test('the worker computations are computed by the worker entry', async () => {
+  const workerModule = await importWorkerSSRComputation(uniquePath(), createWorker);
+
+  await expect(workerModule.compute('date')).resolves.toEqual(new Date(0));
+  await expect(workerModule.compute('noResult')).resolves.toBe(NoResult);
+  await expect(workerModule.compute('error')).rejects.toThrow('compute failed');
+});
+
+test('the computations are distributed between up to "maxWorkers" workers', async () => {
+  const workerModule = await importWorkerSSRComputation(uniquePath(), createWorker);
+
+  const results = await Promise.all([workerModule.compute('date'), workerModule.compute('date'), workerModule.compute('date')]);
+
+  expect(results).toEqual([new Date(0), new Date(0), new Date(0)]);
+  expect(workers).toHaveLength(2);
+  // The computation isn't used by any mounted hook, so the workers are terminated once they're idle
+  workers.forEach((worker) => expect(worker.terminate).toHaveBeenCalledTimes(1));
+});
+
+test('the workers are kept while the hooks are mounted and terminated when they are unmounted', async () => {
+  const relativePathToCwd = uniquePath();
+  const importFn = () => importWorkerSSRComputation(relativePathToCwd, createWorker);
+  const { result, waitForNextUpdate, unmount } = renderHook(() => useSSRComputation_Client(importFn, ['date'], {}, relativePathToCwd));
+
+  await waitForNextUpdate();
+  expect(result.current).toEqual(new Date(0));
+  expect(workers).toHaveLength(1);
+  expect(workers[0].terminate).not.toHaveBeenCalled();
+
+  unmount();
+  expect(workers[0].terminate).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,150 @@
+import { ClientComputationFunction, Dependency, NoResult, SSRComputationModule } from "./utils";
+
+export type SSRComputationWorkersConfig = {
+  // The maximum number of workers of each computation. The computations are queued while all of them are busy.
+  maxWorkers: number;
+};
+
+type WorkerRequest = { id: number, dependencies: Dependency[] };
+type WorkerResponse =
+  | { id: number, result: unknown }
+  | { id: number, noResult: true }
+  | { id: number, error: string };
+
+// The subset of the worker global scope used by `exposeSSRComputation`
+type WorkerScope = {
+  onmessage: ((event: { data: WorkerRequest }) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+type WorkerTask = WorkerRequest & {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+const defaultSSRComputationWorkersConfig: SSRComputationWorkersConfig = {
+  maxWorkers: typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+    ? Math.max(1, Math.min(4, navigator.hardwareConcurrency - 1))
+    : 1,
+};
+let workersConfig = defaultSSRComputationWorkersConfig;
+
+export const configureSSRComputationWorkers = (config: Partial<SSRComputationWorkersConfig>) => {
+  workersConfig = { ...defaultSSRComputationWorkersConfig, ...config };
+}
+
+// Runs the tasks of a single computation in up to `maxWorkers` workers.
+// The workers are terminated once the computation isn't used by any mounted hook and they're idle.
+class WorkerPool {
+  private idleWorkers: Worker[] = [];
+  private busyWorkers = new Map<Worker, WorkerTask>();
+  private queuedTasks: WorkerTask[] = [];
+  private nextTaskId = 0;
+  private consumersCount = 0;
+
+  constructor(private readonly createWorker: () => Worker) {}
+
+  run = (dependencies: Dependency[]) => new Promise<unknown>((resolve, reject) => {
+    this.queuedTasks.push({ id: this.nextTaskId++, dependencies, resolve, reject });
+    this.runQueuedTasks();
+  })
+
+  retain = () => {
+    this.consumersCount++;
+    let isReleased = false;
+    return () => {
+      if (isReleased) return;
+      isReleased = true;
+      this.consumersCount--;
+      this.terminateIdleWorkersIfUnused();
+    };
+  }
+
+  private runQueuedTasks = () => {
+    while (this.queuedTasks.length > 0) {
+      const worker = this.idleWorkers.pop() ?? (this.busyWorkers.size < workersConfig.maxWorkers ? this.spawnWorker() : undefined);
+      if (!worker) return;
+
+      const task = this.queuedTasks.shift()!;
+      this.busyWorkers.set(worker, task);
+      worker.postMessage({ id: task.id, dependencies: task.dependencies });
+    }
+    this.terminateIdleWorkersIfUnused();
+  }
+
+  private spawnWorker = () => {
+    const worker = this.createWorker();
+    worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+      const task = this.busyWorkers.get(worker);
+      if (!task || task.id !== data.id) return;
+      this.busyWorkers.delete(worker);
+      this.idleWorkers.push(worker);
+
+      if ('error' in data) {
+        task.reject(new Error(data.error));
+      } else {
+        task.resolve('noResult' in data ? NoResult : data.result);
+      }
+      this.runQueuedTasks();
+    };
+    worker.onerror = (event) => {
+      // The worker can't be reused after an uncaught error (e.g. if its script failed to load)
+      event.preventDefault?.();
+      const task = this.busyWorkers.get(worker);
+      this.busyWorkers.delete(worker);
+      this.idleWorkers = this.idleWorkers.filter((idleWorker) => idleWorker !== worker);
+      worker.terminate();
+      task?.reject(new Error(event.message || 'The SSR computation worker failed'));
+      this.runQueuedTasks();
+    };
+    return worker;
+  }
+
+  private terminateIdleWorkersIfUnused = () => {
+    if (this.consumersCount > 0 || this.queuedTasks.length > 0) return;
+    this.idleWorkers.forEach((worker) => worker.terminate());
+    this.idleWorkers = [];
+  }
+}
+
+const workerPools = new Map<string, WorkerPool>();
+const workerPoolsOfModules = new WeakMap<SSRComputationModule<unknown>, WorkerPool>();
+
+// Used instead of the dynamic import of the computation file by the computations with the "worker" option.
+// The "compute" function of the returned module runs the computation in the worker entry generated by the macro.
+export const importWorkerSSRComputation = <TResult>(
+  relativePathToCwd: string,
+  createWorker: () => Worker,
+): ReturnType<ClientComputationFunction<TResult>> => {
+  let workerPool = workerPools.get(relativePathToCwd);
+  if (!workerPool) {
+    workerPool = new WorkerPool(createWorker);
+    workerPools.set(relativePathToCwd, workerPool);
+  }
+
+  const { run } = workerPool;
+  const workerModule: SSRComputationModule<unknown> = {
+    compute: (...dependencies: Dependency[]) => run(dependencies),
+  };
+  workerPoolsOfModules.set(workerModule, workerPool);
+  return Promise.resolve(workerModule as SSRComputationModule<TResult>);
+}
+
+// Keeps the workers of the computation alive while it's used by a mounted hook.
+// Returns a function that releases them, or undefined if the computation doesn't run in a worker.
+export const retainWorkers = <TResult>(module: SSRComputationModule<TResult>): (() => void) | undefined => {
+  return workerPoolsOfModules.get(module as SSRComputationModule<unknown>)?.retain();
+}
+
+// Called by the worker entry generated by the macro. It computes the results requested by `importWorkerSSRComputation`.
+export const exposeSSRComputation = (module: SSRComputationModule<unknown>) => {
+  const workerScope = self as unknown as WorkerScope;
+  workerScope.onmessage = async ({ data: { id, dependencies } }) => {
+    try {
+      const result = await module.compute(...dependencies);
+      workerScope.postMessage(result === NoResult ? { id, noResult: true } : { id, result });
+    } catch (error) {
+      workerScope.postMessage({ id, error: String(error) });
+    }
+  };
+}